@@ -6,6 +6,15 @@
  */
 
 import { z } from 'zod';
+import {
+  propertyResponseSchema,
+  avmResponseSchema,
+  saleResponseSchema,
+  assessmentResponseSchema,
+  schoolSearchResponseSchema,
+  schoolProfileResponseSchema,
+  schoolDistrictResponseSchema
+} from './responseSchemas.js';
 
 /**
  * Endpoint category types
@@ -63,8 +72,8 @@ export interface RateLimitConfig {
  */
 export interface CacheConfig {
   ttlSeconds: number;
-  useRedis: boolean;
-  useMemory: boolean;
+  useRedis: boolean; // Use the shared CACHE_BACKEND store (Redis when configured) instead of process memory
+  useMemory: boolean; // Cache responses at all
 }
 
 /**
@@ -77,17 +86,18 @@ export interface EndpointConfig {
   requiredParams: string[];
   optionalParams: string[];
   fallbackStrategy?: FallbackStrategy;
+  directFallbackStrategy?: FallbackStrategy; // With TRY_ALLEVENTS_FIRST: strategy for the direct endpoint call
   preferredGeoIdSubtype?: string; // Preferred geocode subtype (e.g., 'ZI', 'DB', 'N2')
   allEventsFields?: AllEventsDataField[];
   rateLimit: RateLimitConfig;
   cache: CacheConfig;
-  responseSchema?: z.ZodType<any>;
+  responseSchema?: z.ZodType<any>; // Checked against every fresh response (see RESPONSE_VALIDATION_MODE)
 }
 
 /**
  * Default rate limit configuration
  */
-const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   requestsPerMinute: 10,
   requestsPerDay: 1000,
 };
@@ -97,7 +107,7 @@ const DEFAULT_RATE_LIMIT: RateLimitConfig = {
  */
 const DEFAULT_CACHE: CacheConfig = {
   ttlSeconds: 3600, // 1 hour
-  useRedis: false,
+  useRedis: true,
   useMemory: true,
 };
 
@@ -106,7 +116,7 @@ const DEFAULT_CACHE: CacheConfig = {
  */
 const PROPERTY_CACHE: CacheConfig = {
   ttlSeconds: 86400, // 24 hours
-  useRedis: false,
+  useRedis: true,
   useMemory: true,
 };
 
@@ -115,7 +125,7 @@ const PROPERTY_CACHE: CacheConfig = {
  */
 const VOLATILE_CACHE: CacheConfig = {
   ttlSeconds: 900, // 15 minutes
-  useRedis: false,
+  useRedis: true,
   useMemory: true,
 };
 
@@ -130,9 +140,10 @@ export const endpoints: Record<string, EndpointConfig> = {
     description: 'Comprehensive property information including assessment, AVM, and sales data',
     requiredParams: ['id'],
     optionalParams: [],
-    fallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
+    fallbackStrategy: FallbackStrategy.ATTOMID_TO_ID,
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: propertyResponseSchema,
   },
   
   // Property endpoints
@@ -145,6 +156,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     fallbackStrategy: FallbackStrategy.NONE,
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: propertyResponseSchema,
   },
 
   propertyExpandedProfile: {
@@ -156,6 +168,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     fallbackStrategy: FallbackStrategy.NONE,
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: propertyResponseSchema,
   },
   
   propertyDetailOwner: {
@@ -167,6 +180,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     fallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: propertyResponseSchema,
   },
   
   propertyDetailMortgage: {
@@ -175,7 +189,9 @@ export const endpoints: Record<string, EndpointConfig> = {
     description: 'Property mortgage details',
     requiredParams: ['attomid'],
     optionalParams: [],
-    fallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
+    fallbackStrategy: FallbackStrategy.TRY_ALLEVENTS_FIRST,
+    directFallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
+    allEventsFields: [AllEventsDataField.MORTGAGE],
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: VOLATILE_CACHE,
   },
@@ -230,9 +246,12 @@ export const endpoints: Record<string, EndpointConfig> = {
     description: 'AVM snapshot for a property',
     requiredParams: ['attomid'],
     optionalParams: [],
-    fallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
+    fallbackStrategy: FallbackStrategy.TRY_ALLEVENTS_FIRST,
+    directFallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
+    allEventsFields: [AllEventsDataField.AVM],
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: VOLATILE_CACHE,
+    responseSchema: avmResponseSchema,
   },
   
   // This block was duplicated by the rename of propertyAVMDetail. Removing original.
@@ -254,9 +273,11 @@ export const endpoints: Record<string, EndpointConfig> = {
     description: 'Property assessment details',
     requiredParams: ['address1', 'address2'],
     optionalParams: [],
-    fallbackStrategy: FallbackStrategy.NONE,
+    fallbackStrategy: FallbackStrategy.TRY_ALLEVENTS_FIRST,
+    allEventsFields: [AllEventsDataField.ASSESSMENT],
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: assessmentResponseSchema,
   },
   
   avmDetail: {
@@ -265,9 +286,11 @@ export const endpoints: Record<string, EndpointConfig> = {
     description: 'Property AVM details',
     requiredParams: ['address1', 'address2'],
     optionalParams: [],
-    fallbackStrategy: FallbackStrategy.NONE,
+    fallbackStrategy: FallbackStrategy.TRY_ALLEVENTS_FIRST,
+    allEventsFields: [AllEventsDataField.AVM],
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: VOLATILE_CACHE,
+    responseSchema: avmResponseSchema,
   },
 
   propertyDetailsWithSchools: {
@@ -291,9 +314,11 @@ export const endpoints: Record<string, EndpointConfig> = {
     description: 'Sale detail for a property',
     requiredParams: ['address1', 'address2'],
     optionalParams: [],
-    fallbackStrategy: FallbackStrategy.NONE,
+    fallbackStrategy: FallbackStrategy.TRY_ALLEVENTS_FIRST,
+    allEventsFields: [AllEventsDataField.SALE],
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: saleResponseSchema,
   },
 
   salesHistorySnapshot: {
@@ -305,6 +330,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     fallbackStrategy: FallbackStrategy.ADDRESS_TO_GEOID,
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: saleResponseSchema,
   },
 
   transactionSalesTrend: {
@@ -385,6 +411,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     fallbackStrategy: FallbackStrategy.ADDRESS_TO_GEOID,
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: schoolSearchResponseSchema,
   },
 
   schoolProfile: {
@@ -397,6 +424,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     preferredGeoIdSubtype: 'SB', // Use SB geocode for school profiles
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: schoolProfileResponseSchema,
   },
 
   schoolDistrict: {
@@ -409,6 +437,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     preferredGeoIdSubtype: 'DB', // Use DB geocode for school districts
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: PROPERTY_CACHE,
+    responseSchema: schoolDistrictResponseSchema,
   },
   
   // POI endpoints
@@ -449,7 +478,7 @@ export const endpoints: Record<string, EndpointConfig> = {
       'yearBuiltRange', 'storiesRange', 'include0SalesAmounts', 'includeFullSalesOnly',
       'ownerOccupied', 'distressed'
     ],
-    fallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
+    fallbackStrategy: FallbackStrategy.ATTOMID_TO_ID,
     rateLimit: DEFAULT_RATE_LIMIT,
     cache: VOLATILE_CACHE
   },
@@ -464,6 +493,7 @@ export const endpoints: Record<string, EndpointConfig> = {
     // Note: Date calculation and GeoID extraction logic needs implementation in queryManager
     rateLimit: DEFAULT_RATE_LIMIT, // Assuming default rate limit
     cache: PROPERTY_CACHE, // Assuming property cache TTL
+    responseSchema: assessmentResponseSchema,
   },
 
   assessmentHistoryDetail: {
@@ -481,9 +511,9 @@ export const endpoints: Record<string, EndpointConfig> = {
     path: '/propertyapi/v1.0.0/allevents/snapshot',
     category: EndpointCategory.ALLEVENTS,
     description: 'Snapshot of all events for a property', // Added description
-    requiredParams: ['id'], // 'id' likely corresponds to attomid
+    requiredParams: ['id'], // ATTOM ID; mapped from attomid/attomId/address by ATTOMID_TO_ID
     optionalParams: [],
-    fallbackStrategy: FallbackStrategy.ADDRESS_TO_ATTOMID,
+    fallbackStrategy: FallbackStrategy.ATTOMID_TO_ID,
     rateLimit: DEFAULT_RATE_LIMIT, // Assuming default rate limit
     cache: PROPERTY_CACHE, // Assuming property cache TTL
   },
@@ -502,6 +532,15 @@ export function getEndpointConfig(key: string): EndpointConfig {
   return config;
 }
 
+/**
+ * Find the endpoint key whose configured path matches an API path
+ * @param path Endpoint path (before placeholder substitution)
+ * @returns Endpoint key or undefined if the path is not configured
+ */
+export function getEndpointKeyByPath(path: string): string | undefined {
+  return Object.keys(endpoints).find(key => endpoints[key].path === path);
+}
+
 /**
  * Get all endpoints in a specific category
  * @param category Endpoint category
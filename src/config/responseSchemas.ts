@@ -0,0 +1,170 @@
+/**
+ * Response Schemas
+ *
+ * Zod schemas describing the ATTOM payloads our code and MCP clients rely on.
+ * They only pin down the fields we read; every object uses passthrough() so
+ * extra fields ATTOM adds are kept, and most fields are optional because ATTOM
+ * omits them when it has no data for a property.
+ */
+
+import { z } from 'zod';
+
+// ATTOM returns many numeric values as strings on some endpoints and numbers on others
+const numeric = z.union([z.number(), z.string()]);
+
+/**
+ * Status block of v1.0.0 property API responses
+ */
+export const statusSchema = z.object({
+  version: z.string().nullish(),
+  code: numeric.describe('0 on success; non-zero codes are raised as errors by the fetcher'),
+  msg: z.string().nullish().describe('Human-readable status message, e.g. "SuccessWithResult"'),
+  total: z.number().nullish().describe('Total number of matching records'),
+  page: z.number().nullish(),
+  pagesize: z.number().nullish(),
+  transactionID: z.string().nullish().describe('ATTOM transaction ID, useful when contacting ATTOM support'),
+}).passthrough();
+
+/**
+ * Status block of v4 (area, school, community) responses
+ */
+export const v4StatusSchema = z.object({
+  code: numeric.nullish(),
+  msg: z.string().nullish(),
+  total: z.number().nullish(),
+  transactionID: z.string().nullish(),
+}).passthrough();
+
+export const identifierSchema = z.object({
+  Id: z.number().nullish().describe('Legacy ATTOM property ID'),
+  fips: z.string().nullish().describe('County FIPS code'),
+  apn: z.string().nullish().describe('Assessor parcel number'),
+  attomId: z.number().nullish().describe('ATTOM ID; use as attomid / id / propId in follow-up queries'),
+}).passthrough();
+
+export const addressSchema = z.object({
+  country: z.string().nullish(),
+  countrySubd: z.string().nullish().describe('State code'),
+  line1: z.string().nullish().describe('Street address'),
+  line2: z.string().nullish().describe('City, state and ZIP'),
+  locality: z.string().nullish().describe('City'),
+  oneLine: z.string().nullish().describe('Full address on one line'),
+  postal1: z.string().nullish().describe('ZIP code'),
+}).passthrough();
+
+export const locationSchema = z.object({
+  latitude: numeric.nullish(),
+  longitude: numeric.nullish(),
+  geoIdV4: z.record(z.string()).nullish().describe('GeoID V4 per geography subtype (e.g. N2, ZI, SB, DB)'),
+}).passthrough();
+
+export const avmSchema = z.object({
+  eventDate: z.string().nullish().describe('Date of the valuation'),
+  amount: z.object({
+    scr: numeric.nullish().describe('Confidence score (0-100)'),
+    value: numeric.nullish().describe('Estimated market value in USD'),
+    high: numeric.nullish().describe('Upper bound of the value range'),
+    low: numeric.nullish().describe('Lower bound of the value range'),
+    fsd: numeric.nullish().describe('Forecast standard deviation'),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const saleSchema = z.object({
+  saleSearchDate: z.string().nullish(),
+  saleTransDate: z.string().nullish().describe('Date the sale transaction took place'),
+  amount: z.object({
+    saleamt: numeric.nullish().describe('Sale price in USD'),
+    salerecdate: z.string().nullish().describe('Date the sale was recorded'),
+    saledisclosuretype: numeric.nullish(),
+    saledoctype: z.string().nullish().describe('Recorded document type, e.g. "DEED"'),
+    saletranstype: z.string().nullish().describe('Transaction type, e.g. "Resale"'),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const assessmentSchema = z.object({
+  assessed: z.object({
+    assdttlvalue: numeric.nullish().describe('Total assessed value'),
+    assdimprvalue: numeric.nullish().describe('Assessed improvement value'),
+    assdlandvalue: numeric.nullish().describe('Assessed land value'),
+  }).passthrough().nullish(),
+  market: z.object({
+    mktttlvalue: numeric.nullish().describe('Total market value'),
+    mktimprvalue: numeric.nullish(),
+    mktlandvalue: numeric.nullish(),
+  }).passthrough().nullish(),
+  tax: z.object({
+    taxamt: numeric.nullish().describe('Annual tax amount in USD'),
+    taxyear: numeric.nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+/**
+ * One property record as returned by the v1.0.0 property endpoints
+ */
+export const propertyRecordSchema = z.object({
+  identifier: identifierSchema.nullish(),
+  address: addressSchema.nullish(),
+  location: locationSchema.nullish(),
+  summary: z.record(z.unknown()).nullish().describe('Property type, year built and other summary fields'),
+  building: z.record(z.unknown()).nullish().describe('Size, rooms and construction details'),
+  lot: z.record(z.unknown()).nullish(),
+  avm: avmSchema.nullish(),
+  sale: saleSchema.nullish(),
+  assessment: assessmentSchema.nullish(),
+}).passthrough();
+
+/**
+ * Envelope shared by the v1.0.0 property endpoints: a status block and a list of property records
+ * @param record Schema of each property record
+ */
+function propertyEnvelope<T extends z.ZodTypeAny>(record: T) {
+  return z.object({
+    status: statusSchema.nullish(),
+    property: z.array(record).describe('Matching property records'),
+  }).passthrough();
+}
+
+export const propertyResponseSchema = propertyEnvelope(propertyRecordSchema)
+  .describe('Property records (profile / detail endpoints)');
+
+export const avmResponseSchema = propertyEnvelope(propertyRecordSchema.extend({ avm: avmSchema }))
+  .describe('Property records with an automated valuation (avm)');
+
+export const saleResponseSchema = propertyEnvelope(propertyRecordSchema.extend({ sale: saleSchema }))
+  .describe('Property records with their most recent sale');
+
+export const assessmentResponseSchema = propertyEnvelope(propertyRecordSchema.extend({ assessment: assessmentSchema }))
+  .describe('Property records with tax assessment data');
+
+const schoolSchema = z.object({
+  schoolName: z.string().nullish(),
+  geoIdV4: z.string().nullish().describe('School GeoID V4 (SB subtype)'),
+  gradeLevel: z.string().nullish(),
+  distance: numeric.nullish().describe('Distance from the search location in miles'),
+}).passthrough();
+
+export const schoolSearchResponseSchema = z.object({
+  status: v4StatusSchema.nullish(),
+  school: z.array(schoolSchema).nullish().describe('Schools near the search location'),
+}).passthrough().describe('School search results');
+
+export const schoolProfileResponseSchema = z.object({
+  status: v4StatusSchema.nullish(),
+  schoolProfileAndDistrictInfo: z.object({
+    schoolProfile: z.record(z.unknown()).nullish(),
+    districtProfile: z.record(z.unknown()).nullish(),
+  }).passthrough().nullish(),
+}).passthrough().describe('Profile of one school and its district');
+
+export const schoolDistrictResponseSchema = z.object({
+  status: v4StatusSchema.nullish(),
+  schoolDistrict: z.record(z.unknown()).nullish().describe('District profile'),
+}).passthrough().describe('School district profile');
+
+export type PropertyResponse = z.infer<typeof propertyResponseSchema>;
+export type AvmResponse = z.infer<typeof avmResponseSchema>;
+export type SaleResponse = z.infer<typeof saleResponseSchema>;
+export type AssessmentResponse = z.infer<typeof assessmentResponseSchema>;
+export type SchoolSearchResponse = z.infer<typeof schoolSearchResponseSchema>;
+export type SchoolProfileResponse = z.infer<typeof schoolProfileResponseSchema>;
+export type SchoolDistrictResponse = z.infer<typeof schoolDistrictResponseSchema>;
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+
+vi.mock('../utils/fetcher.js', () => ({
+  fetchAttom: vi.fn(),
+}));
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { fetchAttom } from '../utils/fetcher.js';
+import { createMcpServer } from './mcpServer.js';
+import { setPersistentStore } from '../utils/persistentCache.js';
+
+const fetchMock = vi.mocked(fetchAttom);
+
+setPersistentStore(null);
+
+describe('attom_batch_query tool', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await Promise.all([createMcpServer().connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('reports progress to clients that send a progressToken', async () => {
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: [{}] });
+    const progress: Array<{ progress: number; total?: number }> = [];
+
+    const result = await client.callTool(
+      { name: 'attom_batch_query', arguments: { kinds: ['propertyDetailOwner'], rows: [{ attomid: '9400001' }, { attomid: '9400002' }] } },
+      CallToolResultSchema,
+      { onprogress: notification => progress.push(notification) }
+    );
+
+    const batch = JSON.parse((result.content as Array<{ text: string }>)[0].text);
+    expect(batch).toMatchObject({ total: 2, succeeded: 2 });
+    expect(progress).toEqual([{ progress: 1, total: 2 }, { progress: 2, total: 2 }]);
+  });
+
+  it('returns a large result in compact pages read with attom_batch_results', async () => {
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: [{ notes: 'x'.repeat(100_000) }] });
+    const rows = Array.from({ length: 4 }, (_, i) => ({ attomid: `950000${i}` }));
+
+    const first = await client.callTool({ name: 'attom_batch_query', arguments: { kinds: ['propertyDetailOwner'], rows } });
+    const firstText = (first.content as Array<{ text: string }>)[0].text;
+    const page = JSON.parse(firstText);
+    const rest = JSON.parse((await client.callTool({
+      name: 'attom_batch_results',
+      arguments: { batchId: page.batchId, offset: page.nextOffset },
+    }) as { content: Array<{ text: string }> }).content[0].text);
+
+    expect(firstText).not.toContain('\n');
+    expect(page).toMatchObject({ total: 4, succeeded: 4, nextOffset: 2 });
+    expect(page.rows.map((row: { index: number }) => row.index)).toEqual([0, 1]);
+    expect(rest).toMatchObject({ batchId: page.batchId, total: 4, offset: 2 });
+    expect(rest.rows.map((row: { index: number }) => row.index)).toEqual([2, 3]);
+    expect(rest.nextOffset).toBeUndefined();
+  });
+
+  it('rejects an unknown batchId', async () => {
+    const result = await client.callTool({ name: 'attom_batch_results', arguments: { batchId: 'nope', offset: 0 } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as Array<{ text: string }>)[0].text).error.code).toBe('INVALID_PARAMS');
+  });
+
+  it('rejects kinds the deployment does not expose', async () => {
+    const result = await client.callTool({ name: 'attom_batch_query', arguments: { kinds: 'noSuchEndpoint', rows: ['1 Main St, Denver, CO'] } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as Array<{ text: string }>)[0].text).error.code).toBe('INVALID_PARAMS');
+  });
+});
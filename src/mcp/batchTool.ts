@@ -0,0 +1,203 @@
+/**
+ * Batch MCP Tool for ATTOM API
+ *
+ * Defines `attom_batch_query`, which runs one or more endpoint kinds for a
+ * list of addresses or ATTOM IDs (e.g. a spreadsheet column) and returns a
+ * result or error per row, reporting progress while it works through them.
+ * Results too large for one tool result come back a page at a time; the
+ * remaining pages are read with `attom_batch_results`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { CacheMode } from '../services/queryManager.js';
+import { AttomService } from '../services/attomService.js';
+import { BatchQueryResult, BatchRowResult, getBatchLimits } from '../services/batchQuery.js';
+import { writeLog } from '../utils/logger.js';
+import { runAsTenant } from '../utils/tenants.js';
+import { cacheData, getCachedData } from '../utils/caching.js';
+import { getCurrentClient } from '../utils/clientContext.js';
+import { InvalidParamsError } from '../utils/errors.js';
+import { describeNormalizeAddressParam, describeTenantParam } from './endpointTools.js';
+import type { McpToolDefinition, ToolCallContext } from './toolProfile.js';
+
+// Accepted values for the per-call response cache option
+const CACHE_MODES: CacheMode[] = ['default', 'refresh', 'bypass'];
+
+// Progress notifications sent per batch at most, however many rows it has
+const MAX_PROGRESS_NOTIFICATIONS = 100;
+
+// Serialized size of the result rows returned per call; a single larger row is still returned whole
+const MAX_PAGE_BYTES = 256 * 1024;
+
+// Cache "endpoint" the rows of paged batches are kept under (default cache TTL)
+const BATCH_RESULTS_CACHE = 'batch-results';
+
+/**
+ * Read the endpoint kinds from an array or a comma-separated string
+ */
+function parseKinds(value: unknown): string[] {
+  const kinds = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return kinds.map(kind => String(kind).trim()).filter(Boolean);
+}
+
+/**
+ * Report batch progress through the call's context, about every 1% of the rows
+ */
+function progressReporter(context: ToolCallContext | undefined, total: number) {
+  const step = Math.max(1, Math.floor(total / MAX_PROGRESS_NOTIFICATIONS));
+  return (completed: number) => {
+    if (completed % step === 0 || completed === total) {
+      // A client that went away must not fail the batch
+      context?.reportProgress?.(completed, total).catch(() => undefined);
+    }
+  };
+}
+
+/**
+ * Cut the result rows into a page of at most MAX_PAGE_BYTES, starting at offset
+ * @returns The page, with the offset of the next page if rows remain
+ */
+function pageOfRows(rows: BatchRowResult[], offset: number): { rows: BatchRowResult[]; nextOffset?: number } {
+  const page: BatchRowResult[] = [];
+  let bytes = 0;
+  for (const row of rows.slice(offset)) {
+    const size = JSON.stringify(row).length;
+    if (page.length > 0 && bytes + size > MAX_PAGE_BYTES) {
+      break;
+    }
+    page.push(row);
+    bytes += size;
+  }
+  const nextOffset = offset + page.length;
+  return nextOffset < rows.length ? { rows: page, nextOffset } : { rows: page };
+}
+
+// Batches are only readable by the client that ran them
+function batchCacheKey(batchId: string): string {
+  return `batch:${getCurrentClient()?.id ?? ''}:${batchId}`;
+}
+
+/**
+ * Return the first page of a batch, keeping all its rows for attom_batch_results
+ * when they do not fit
+ */
+async function firstPage(batch: BatchQueryResult) {
+  const { rows, ...summary } = batch;
+  const page = pageOfRows(rows, 0);
+  if (page.nextOffset === undefined) {
+    return batch;
+  }
+  const batchId = randomUUID();
+  await cacheData(batchCacheKey(batchId), rows, BATCH_RESULTS_CACHE);
+  return { ...summary, batchId, ...page };
+}
+
+/**
+ * Build the batch tools for a set of endpoints
+ * @param endpointKeys Endpoint keys the batch may query
+ * @param attomService ATTOM service running the batch
+ * @returns Tool definitions (none if no endpoint is exposed)
+ */
+export function buildBatchTools(endpointKeys: string[], attomService: AttomService): McpToolDefinition[] {
+  if (endpointKeys.length === 0) {
+    return [];
+  }
+  const { maxRows, concurrency } = getBatchLimits();
+
+  return [{
+    name: 'attom_batch_query',
+    description: `Run one or more ATTOM endpoint kinds for up to ${maxRows} addresses or ATTOM IDs and get a result or error per row. ` +
+      'Rows are queried a few at a time within the rate limits; send a progressToken to receive progress notifications. ' +
+      'A large result returns its first rows with a batchId and nextOffset; read the rest with attom_batch_results.',
+    parameters: {
+      type: 'object',
+      properties: {
+        kinds: {
+          description: `Endpoint keys to query for every row, as an array or comma-separated (any of: ${endpointKeys.join(', ')})`,
+        },
+        rows: {
+          description: 'Array of rows: one-line addresses ("4529 Winona Ct, Denver, CO 80212") or parameter objects such as {"attomid": "184713191"} or {"address1": "...", "address2": "..."}',
+        },
+        params: {
+          type: 'object',
+          description: 'Parameters added to every row, e.g. {"radius": 1}; a row\'s own values win',
+        },
+        concurrency: {
+          type: 'number',
+          description: `Rows queried at the same time (1-${concurrency}). Defaults to ${concurrency}.`,
+        },
+        cache: {
+          type: 'string',
+          enum: CACHE_MODES,
+          description: `Response cache mode for every call (one of: ${CACHE_MODES.join(', ')}). Defaults to 'default'.`,
+        },
+        ...describeTenantParam(),
+        ...describeNormalizeAddressParam(),
+      },
+      required: ['kinds', 'rows'],
+    },
+    /** Handler checks the kinds against the exposed endpoints, then runs the batch through AttomService. */
+    handler: async (input: Record<string, any>, context?: ToolCallContext) => {
+      const { rows, params, concurrency: requested, cache: cacheMode, tenant, normalizeAddress } = input ?? {};
+      const kinds = parseKinds(input?.kinds);
+
+      const hiddenKinds = kinds.filter(kind => !endpointKeys.includes(kind));
+      if (kinds.length === 0 || hiddenKinds.length > 0) {
+        throw new InvalidParamsError(`Invalid or missing 'kinds'. Each must be one of: ${endpointKeys.join(', ')}`, { invalidKinds: hiddenKinds });
+      }
+      if (!Array.isArray(rows)) {
+        throw new InvalidParamsError("'rows' must be an array of addresses or parameter objects");
+      }
+      if (cacheMode !== undefined && !CACHE_MODES.includes(cacheMode)) {
+        throw new InvalidParamsError(`Invalid 'cache'. Must be one of: ${CACHE_MODES.join(', ')}`);
+      }
+      if (params !== undefined && (typeof params !== 'object' || params === null)) {
+        throw new InvalidParamsError("'params' must be an object");
+      }
+
+      writeLog(`[attom_batch_query Handler] ${rows.length} rows x ${kinds.join(', ')}`);
+      const onProgress = progressReporter(context, rows.length);
+      const batch = await runAsTenant(tenant, () => attomService.executeBatch(kinds, rows, {
+        params,
+        concurrency: requested,
+        cacheMode,
+        normalizeAddress,
+        signal: context?.signal,
+        onProgress,
+      }));
+      return firstPage(batch);
+    },
+    compactOutput: true,
+  }, {
+    name: 'attom_batch_results',
+    description: 'Read further result rows of an attom_batch_query call whose result came back in pages: pass its batchId and nextOffset. ' +
+      'Each page ends with the nextOffset of the following page, if any.',
+    parameters: {
+      type: 'object',
+      properties: {
+        batchId: {
+          type: 'string',
+          description: 'batchId returned by attom_batch_query',
+        },
+        offset: {
+          type: 'number',
+          description: 'Index of the first row to return (the nextOffset of the previous page)',
+        },
+      },
+      required: ['batchId', 'offset'],
+    },
+    /** Handler returns the page of cached rows starting at offset. */
+    handler: async (input: Record<string, any>) => {
+      const { batchId, offset } = input ?? {};
+      const rows: BatchRowResult[] | undefined = await getCachedData(batchCacheKey(String(batchId)), BATCH_RESULTS_CACHE);
+      if (!rows) {
+        throw new InvalidParamsError(`Unknown or expired batchId '${batchId}'; run attom_batch_query again`, { batchId });
+      }
+      if (!Number.isInteger(offset) || offset < 0 || offset >= rows.length) {
+        throw new InvalidParamsError(`'offset' must be a row index from 0 to ${rows.length - 1}`, { batchId, total: rows.length });
+      }
+      return { batchId, total: rows.length, offset, ...pageOfRows(rows, offset) };
+    },
+    compactOutput: true,
+  }];
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { ClientRegistry } from './clientRegistry.js';
+
+const registry = new ClientRegistry([
+  { id: 'acme', keys: ['acme-secret'], allowedEndpoints: ['avmSnapshot'], quota: { requestsPerMinute: 5, requestsPerDay: 100 } },
+  { id: 'globex', keys: [`sha256:${createHash('sha256').update('globex-secret').digest('hex')}`] },
+]);
+
+describe('client registry', () => {
+  it('identifies clients by bearer token or API key header', () => {
+    expect(registry.authenticate({ authorization: 'Bearer acme-secret' })?.id).toBe('acme');
+    expect(registry.authenticate({ 'x-api-key': 'acme-secret' })).toMatchObject({
+      allowedEndpoints: ['avmSnapshot'],
+      quota: { requestsPerMinute: 5, requestsPerDay: 100 },
+    });
+  });
+
+  it('accepts keys stored as SHA-256 digests', () => {
+    expect(registry.authenticate({ authorization: 'Bearer globex-secret' })?.id).toBe('globex');
+  });
+
+  it('rejects missing and unknown keys', () => {
+    expect(registry.authenticate({})).toBeUndefined();
+    expect(registry.authenticate({ authorization: 'Bearer nope' })).toBeUndefined();
+  });
+
+  it('refuses allowed endpoint lists with unknown endpoint keys', () => {
+    expect(() => new ClientRegistry([{ id: 'bad', keys: ['k'], allowedEndpoints: ['noSuchEndpoint'] }]))
+      .toThrow('unknown endpoint keys: noSuchEndpoint');
+  });
+});
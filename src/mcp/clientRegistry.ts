@@ -0,0 +1,141 @@
+/**
+ * MCP Client Registry
+ *
+ * Authenticates HTTP clients by bearer token or API key. Each registered
+ * client has its own keys, the endpoint keys it may query and an optional
+ * quota on the ATTOM calls it makes.
+ */
+
+import fs from "node:fs";
+import { createHash } from "node:crypto";
+import { IncomingHttpHeaders } from "node:http";
+import dotenv from "dotenv";
+import { z } from "zod";
+import { endpoints } from "../config/endpointConfig.js";
+import { ClientIdentity } from "../utils/clientContext.js";
+import { DEFAULT_TENANT_ID, listTenantIds } from "../utils/tenants.js";
+import { registerLogSecret, writeLog } from "../utils/logger.js";
+
+// Load environment variables
+dotenv.config();
+
+const HASHED_KEY_PREFIX = 'sha256:';
+
+const clientSchema = z.object({
+  id: z.string().min(1),
+  keys: z.array(z.string().min(1)).min(1)
+    .describe(`Bearer tokens / API keys of the client, either in plain text or as "${HASHED_KEY_PREFIX}<hex digest>"`),
+  allowedEndpoints: z.array(z.string()).optional().describe("Endpoint keys the client may query; all when omitted"),
+  quota: z.object({
+    requestsPerMinute: z.number().int().positive(),
+    requestsPerDay: z.number().int().positive(),
+  }).optional().describe("ATTOM calls the client may make across all endpoints"),
+  tenant: z.string().min(1).optional().describe("Tenant the client's calls are billed to by default"),
+  tenants: z.array(z.string().min(1)).optional().describe("Further tenants the client may select"),
+  admin: z.boolean().optional().describe("May use the admin tools enabled by ATTOM_ADMIN_TOOLS and scrape /metrics"),
+});
+
+const registrySchema = z.object({
+  clients: z.array(clientSchema),
+});
+
+/**
+ * Client entry of the registry file
+ */
+export type RegisteredClient = z.infer<typeof clientSchema>;
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Get the credential a request presents: `Authorization: Bearer <token>` or `X-API-Key: <key>`
+ */
+function getPresentedKey(headers: IncomingHttpHeaders): string | undefined {
+  const bearer = headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = headers['x-api-key'];
+  return bearer?.trim() || (Array.isArray(apiKey) ? apiKey[0] : apiKey)?.trim() || undefined;
+}
+
+/**
+ * Registered clients, looked up by the SHA-256 digest of their keys
+ */
+export class ClientRegistry {
+  private readonly clientsByKeyHash = new Map<string, ClientIdentity>();
+  /** Number of registered clients */
+  readonly size: number;
+
+  /**
+   * @throws Error on duplicate client IDs or keys and on unknown endpoint keys or tenants
+   */
+  constructor(clients: RegisteredClient[]) {
+    const ids = new Set<string>();
+    const knownTenants = [DEFAULT_TENANT_ID, ...listTenantIds()];
+    for (const { id, keys, allowedEndpoints, quota, tenant, tenants, admin } of clients) {
+      if (ids.has(id)) {
+        throw new Error(`Duplicate client ID in client registry: ${id}`);
+      }
+      ids.add(id);
+
+      const unknown = allowedEndpoints?.filter(key => !endpoints[key]) ?? [];
+      if (unknown.length > 0) {
+        throw new Error(`Client ${id} allows unknown endpoint keys: ${unknown.join(', ')}`);
+      }
+
+      const unknownTenants = [tenant, ...(tenants ?? [])].filter(t => t !== undefined && !knownTenants.includes(t));
+      if (unknownTenants.length > 0) {
+        throw new Error(`Client ${id} refers to unknown tenants: ${unknownTenants.join(', ')}`);
+      }
+
+      const identity: ClientIdentity = { id, allowedEndpoints, quota, tenant, tenants, admin };
+      for (const key of keys) {
+        if (!key.startsWith(HASHED_KEY_PREFIX)) {
+          registerLogSecret(key);
+        }
+        const keyHash = key.startsWith(HASHED_KEY_PREFIX) ? key.slice(HASHED_KEY_PREFIX.length).toLowerCase() : sha256(key);
+        if (this.clientsByKeyHash.has(keyHash)) {
+          throw new Error(`Client ${id} reuses a key of client ${this.clientsByKeyHash.get(keyHash)!.id}`);
+        }
+        this.clientsByKeyHash.set(keyHash, identity);
+      }
+    }
+    this.size = ids.size;
+  }
+
+  /**
+   * Load and validate a registry file (JSON: `{ "clients": [...] }`)
+   * @param filePath Path of the registry file
+   */
+  static fromFile(filePath: string): ClientRegistry {
+    const parsed = registrySchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid client registry ${filePath}: ${issues}`);
+    }
+    return new ClientRegistry(parsed.data.clients);
+  }
+
+  /**
+   * Identify the client of a request
+   * @param headers Request headers
+   * @returns The client, or undefined if no or an unknown key was presented
+   */
+  authenticate(headers: IncomingHttpHeaders): ClientIdentity | undefined {
+    const key = getPresentedKey(headers);
+    return key ? this.clientsByKeyHash.get(sha256(key)) : undefined;
+  }
+}
+
+/**
+ * Load the client registry named by MCP_CLIENTS_FILE
+ * @returns The registry, or undefined when authentication is not configured
+ */
+export function loadClientRegistryFromEnv(): ClientRegistry | undefined {
+  const filePath = process.env.MCP_CLIENTS_FILE;
+  if (!filePath) {
+    return undefined;
+  }
+  const registry = ClientRegistry.fromFile(filePath);
+  writeLog(`[ClientRegistry] Loaded ${registry.size} clients from ${filePath}`);
+  return registry;
+}
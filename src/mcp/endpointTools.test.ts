@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../utils/fetcher.js', () => ({
+  fetchAttom: vi.fn(),
+}));
+
+import { fetchAttom } from '../utils/fetcher.js';
+import { setPersistentStore } from '../utils/persistentCache.js';
+import { buildEndpointTools, describeEndpointParams } from './endpointTools.js';
+
+const fetchMock = vi.mocked(fetchAttom);
+
+setPersistentStore(null);
+
+describe('per-endpoint tools', () => {
+  it('offers the address pair wherever a fallback can derive the ID', () => {
+    expect(describeEndpointParams('propertyDetailOwner').summary).toBe('attomid OR address1 + address2');
+    expect(describeEndpointParams('salesComparablesPropId').summary).toBe('propId OR attomid OR address1 + address2');
+    expect(describeEndpointParams('schoolProfile').summary).toBe('geoIdV4 OR address1 + address2');
+  });
+
+  it('keeps params without alternatives required and defaulted params optional', () => {
+    const poi = describeEndpointParams('poiSearch');
+    expect(poi.required).toEqual(['address', 'categoryName', 'radius']);
+    expect(poi.properties.zipcode).toBeDefined();
+
+    const trend = describeEndpointParams('transactionSalesTrend');
+    expect(trend.required).toEqual([]);
+    expect(trend.properties.startyear).toMatchObject({ type: 'number' });
+  });
+
+  it('rejects calls that satisfy none of the alternatives', async () => {
+    const [tool] = buildEndpointTools(['avmSnapshot']);
+
+    expect(tool.name).toBe('attom_avm_snapshot');
+    await expect(tool.handler({ address1: '1 Main St' })).rejects.toThrow(
+      'attom_avm_snapshot requires attomid OR address1 + address2'
+    );
+  });
+
+  it('accepts any ATTOM ID variant for the attomid alternative', async () => {
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: [{ identifier: { attomId: 9400077 } }] });
+    const [tool] = buildEndpointTools(['avmSnapshot']);
+
+    await expect(tool.handler({ attomId: '9400077', cache: 'bypass' })).resolves.toMatchObject({ status: { code: 0 } });
+    expect(fetchMock).toHaveBeenCalledWith('/propertyapi/v1.0.0/avm/snapshot', expect.objectContaining({ attomid: 9400077 }));
+  });
+});
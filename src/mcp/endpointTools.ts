@@ -0,0 +1,227 @@
+/**
+ * Per-Endpoint MCP Tools for ATTOM API
+ *
+ * Generates one MCP tool per entry in `endpoints`, as an alternative (or, with
+ * KEEP_LEGACY_TOOLS, an addition) to the `attom_query` gateway. Each tool's input schema is derived from the
+ * endpoint's requiredParams, optionalParams and fallback strategy, so clients
+ * can see exactly which parameters an endpoint takes (e.g. "attomid OR
+ * address1 + address2") instead of guessing.
+ */
+
+import { endpoints, EndpointConfig, FallbackStrategy } from '../config/endpointConfig.js';
+import { executeAttomQuery, CacheMode, getDefaultedParams, isAttomIdParam, findAttomIdInParams } from '../services/queryManager.js';
+import { normalizeAddressInParams } from '../utils/addressNormalizer.js';
+import { writeLog } from '../utils/logger.js';
+import { listTenantIds, runAsTenant } from '../utils/tenants.js';
+import { InvalidParamsError } from '../utils/errors.js';
+
+/**
+ * JSON schema of a single tool parameter; parameters without a type accept any value
+ */
+export interface ToolParameter {
+  type?: 'string' | 'number' | 'boolean';
+  description: string;
+  enum?: readonly string[];  // Accepted values of a string parameter
+}
+
+/**
+ * Input parameters of an endpoint and the alternative sets that satisfy it
+ */
+export interface EndpointParamSpec {
+  properties: Record<string, ToolParameter>;
+  required: string[];        // Parameters every alternative needs
+  alternatives: string[][];  // Any one complete set is enough
+  summary: string;           // e.g. "attomid OR address1 + address2"
+}
+
+// Accepted values for the per-call response cache option
+const CACHE_MODES: CacheMode[] = ['default', 'refresh', 'bypass'];
+
+const ADDRESS_PAIR = ['address1', 'address2'];
+
+// Types and descriptions of parameters shared by several endpoints
+const PARAM_DOCS: Record<string, ToolParameter> = {
+  address1: { type: 'string', description: 'Street address, e.g. "4529 Winona Ct"' },
+  address2: { type: 'string', description: 'City, state and ZIP, e.g. "Denver, CO 80212"' },
+  address: { type: 'string', description: 'Full one-line address' },
+  attomid: { description: 'ATTOM property ID' },
+  id: { description: 'ATTOM property ID' },
+  propId: { description: 'ATTOM property ID' },
+  geoIdV4: { type: 'string', description: 'GeoID V4 of the area' },
+  startsalesearchdate: { type: 'string', description: 'Start of the sale date range (YYYY-MM-DD)' },
+  endsalesearchdate: { type: 'string', description: 'End of the sale date range (YYYY-MM-DD)' },
+  startcalendardate: { type: 'string', description: 'Start of the calendar date range (YYYY-MM-DD)' },
+  endcalendardate: { type: 'string', description: 'End of the calendar date range (YYYY-MM-DD)' },
+  interval: { type: 'string', description: 'Trend interval: yearly, quarterly or monthly' },
+  startyear: { type: 'number', description: 'First year of the trend' },
+  endyear: { type: 'number', description: 'Last year of the trend' },
+  radius: { type: 'number', description: 'Search radius in miles' },
+  miles: { type: 'number', description: 'Search radius in miles' },
+  latitude: { type: 'number', description: 'Latitude of the search center' },
+  longitude: { type: 'number', description: 'Longitude of the search center' },
+  page: { type: 'number', description: 'Result page number' },
+  pageSize: { type: 'number', description: 'Results per page' },
+  categoryName: { type: 'string', description: 'POI category, e.g. "EATING - DRINKING"' },
+  zipcode: { type: 'string', description: 'ZIP code' },
+  format: { type: 'string', description: 'Boundary format, e.g. "geojson"' },
+};
+
+function describeParam(name: string): ToolParameter {
+  return PARAM_DOCS[name] ?? { description: `Optional ${name} filter` };
+}
+
+/**
+ * Replace one parameter in a set with a substitute set
+ */
+function substitute(params: string[], replaced: string, replacement: string[]): string[] {
+  return [...params.filter(p => p !== replaced), ...replacement];
+}
+
+/**
+ * Work out which parameter sets an endpoint accepts, given what its fallback strategy can derive
+ * @param config Endpoint configuration
+ * @param strategy Strategy to consider
+ */
+function getParamAlternatives(config: EndpointConfig, strategy: FallbackStrategy | undefined): string[][] {
+  const required = config.requiredParams;
+  const idParam = required.find(isAttomIdParam);
+  const geoIdParam = required.find(p => p.toLowerCase().includes('geoid'));
+
+  switch (strategy) {
+    case FallbackStrategy.ADDRESS_TO_ATTOMID:
+      return idParam ? [required, substitute(required, idParam, ADDRESS_PAIR)] : [required];
+    case FallbackStrategy.ATTOMID_TO_ID:
+      return idParam && idParam !== 'attomid'
+        ? [required, substitute(required, idParam, ['attomid']), substitute(required, idParam, ADDRESS_PAIR)]
+        : getParamAlternatives(config, FallbackStrategy.ADDRESS_TO_ATTOMID);
+    case FallbackStrategy.ADDRESS_TO_GEOID:
+      return geoIdParam ? [required, substitute(required, geoIdParam, ADDRESS_PAIR)] : [required];
+    case FallbackStrategy.TRY_ALLEVENTS_FIRST:
+      // AllEvents resolves from an ATTOM ID or an address; the direct call needs its own params
+      return [...getParamAlternatives(config, config.directFallbackStrategy), ['attomid'], ADDRESS_PAIR];
+    default:
+      return [required];
+  }
+}
+
+/**
+ * Build the input parameter spec of an endpoint
+ * @param endpointKey Endpoint key
+ */
+export function describeEndpointParams(endpointKey: string): EndpointParamSpec {
+  const config = endpoints[endpointKey];
+  const defaulted = getDefaultedParams(endpointKey);
+
+  // Drop defaulted params, then sets that became duplicates
+  const seen = new Set<string>();
+  const alternatives = getParamAlternatives(config, config.fallbackStrategy)
+    .map(set => [...new Set(set.filter(p => !defaulted.includes(p)))])
+    .filter(set => {
+      const key = [...set].sort().join('+');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const required = alternatives[0].filter(p => alternatives.every(set => set.includes(p)));
+  const properties: Record<string, ToolParameter> = {};
+  for (const name of [...alternatives.flat(), ...config.requiredParams, ...config.optionalParams]) {
+    properties[name] ??= describeParam(name);
+  }
+
+  return {
+    properties,
+    required,
+    alternatives,
+    summary: alternatives.map(set => set.join(' + ') || '(no parameters)').join(' OR '),
+  };
+}
+
+/**
+ * The optional `tenant` tool parameter, offered only when tenants are configured
+ */
+export function describeTenantParam(): Record<string, ToolParameter> {
+  const tenantIds = listTenantIds();
+  return tenantIds.length === 0 ? {} : {
+    tenant: {
+      type: 'string',
+      description: `ATTOM tenant (contract) to bill this call to (one of: default, ${tenantIds.join(', ')}). Defaults to the session's tenant.`,
+    },
+  };
+}
+
+/**
+ * The optional `normalizeAddress` tool parameter
+ */
+export function describeNormalizeAddressParam(): Record<string, ToolParameter> {
+  return {
+    normalizeAddress: {
+      type: 'boolean',
+      description: 'Normalize address parameters before querying ATTOM. An address that matches several places returns an ADDRESS_AMBIGUOUS error listing the candidates instead. false sends the address to ATTOM as given. Defaults to true.',
+    },
+  };
+}
+
+/**
+ * Derive an MCP tool name from an endpoint key, e.g. avmSnapshot -> attom_avm_snapshot
+ */
+export function endpointToolName(endpointKey: string): string {
+  return `attom_${endpointKey.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()}`;
+}
+
+/**
+ * Helper to create the tool definition for one endpoint.
+ */
+function buildEndpointTool(endpointKey: string) {
+  const config = endpoints[endpointKey];
+  const toolName = endpointToolName(endpointKey);
+  const spec = describeEndpointParams(endpointKey);
+  const defaulted = getDefaultedParams(endpointKey);
+
+  return {
+    name: toolName,
+    description: `${config.description} (ATTOM ${config.path}). Requires ${spec.summary}.` +
+      (defaulted.length ? ` Defaults are filled in for ${defaulted.join(', ')}.` : ''),
+    parameters: {
+      type: 'object',
+      properties: {
+        ...spec.properties,
+        cache: {
+          type: 'string',
+          enum: CACHE_MODES,
+          description: `Response cache mode (one of: ${CACHE_MODES.join(', ')}). Defaults to 'default'.`,
+        },
+        ...describeTenantParam(),
+        ...describeNormalizeAddressParam(),
+      } as Record<string, ToolParameter>,
+      required: spec.required,
+    },
+    /** Handler checks the parameter alternatives, then forwards to executeAttomQuery. */
+    handler: async (input: Record<string, any>) => {
+      const { cache: cacheMode, tenant, normalizeAddress, ...params } = input ?? {};
+      if (cacheMode !== undefined && !CACHE_MODES.includes(cacheMode)) {
+        throw new InvalidParamsError(`Invalid 'cache'. Must be one of: ${CACHE_MODES.join(', ')}`);
+      }
+
+      // Any ATTOM ID variant (attomId, attom_id, ...) satisfies an ATTOM ID parameter
+      const isSet = (name: string) => isAttomIdParam(name)
+        ? findAttomIdInParams(params) !== undefined
+        : params[name] !== undefined && params[name] !== null && params[name] !== '';
+      if (!spec.alternatives.some(set => set.every(isSet))) {
+        throw new InvalidParamsError(`${toolName} requires ${spec.summary}. Provided: ${Object.keys(params).join(', ') || 'nothing'}`);
+      }
+
+      writeLog(`[${toolName} Handler] Params before normalization: ${JSON.stringify(params)}`);
+      const normalizedParams = normalizeAddress === false ? params : await normalizeAddressInParams(params);
+      return runAsTenant(tenant, () => executeAttomQuery(endpointKey, normalizedParams, { cacheMode, normalizeAddress }));
+    },
+  };
+}
+
+/**
+ * Build one tool per endpoint
+ * @param endpointKeys Endpoint keys to expose
+ */
+export function buildEndpointTools(endpointKeys: string[]) {
+  return endpointKeys.map(buildEndpointTool);
+}
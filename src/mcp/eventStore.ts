@@ -0,0 +1,57 @@
+/**
+ * In-Memory Event Store
+ *
+ * Keeps the most recent server-to-client messages of Streamable HTTP sessions
+ * so a client that loses its SSE stream can reconnect with Last-Event-ID and
+ * receive what it missed.
+ */
+
+import { randomUUID } from "node:crypto";
+import { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Event store bounded by a total event count; the oldest events are dropped first
+ */
+export class InMemoryEventStore implements EventStore {
+  // Insertion order = oldest first
+  private readonly events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+
+  constructor(private readonly maxEvents: number = parseInt(process.env.MCP_EVENT_STORE_MAX_EVENTS ?? '1000')) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    // Event IDs embed the stream ID so replay can find the stream again
+    const eventId = `${streamId}_${randomUUID()}`;
+    this.events.set(eventId, { streamId, message });
+    for (const oldest of this.events.keys()) {
+      if (this.events.size <= this.maxEvents) break;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && streamId === last.streamId) {
+        await send(eventId, message);
+      }
+    }
+    return last.streamId;
+  }
+
+  /** Number of events currently held */
+  get size(): number {
+    return this.events.size;
+  }
+}
@@ -1,25 +1,40 @@
 /**
- * Consolidated MCP Tool for ATTOM API
+ * Consolidated MCP Tools for ATTOM API
  *
- * This file defines a single MCP tool, `attom_query`, that acts as a gateway
- * to all configured ATTOM API endpoints. The specific endpoint is selected
- * using the `kind` parameter, and the `params` object is forwarded to the
- * appropriate handler logic in `queryManager`.
+ * This file defines the gateway tools: `attom_query`, which reaches every
+ * exposed ATTOM API endpoint, or one `attom_<category>_query` tool per
+ * EndpointCategory. The specific endpoint is selected using the `kind`
+ * parameter, and the `params` object is forwarded to the appropriate handler
+ * logic in `queryManager`.
  */
 
 import { z } from 'zod';
-import { executeAttomQuery } from '../services/queryManager.js';
-import { endpoints } from '../config/endpointConfig.js'; // Import endpoints directly
+import { executeAttomQuery, CacheMode } from '../services/queryManager.js';
+import { endpoints, EndpointCategory } from '../config/endpointConfig.js'; // Import endpoints directly
 import { normalizeAddressInParams } from '../utils/addressNormalizer.js';
 import { writeLog } from '../utils/logger.js';
+import { describeEndpointParams, describeNormalizeAddressParam, describeTenantParam } from './endpointTools.js';
+import { runAsTenant } from '../utils/tenants.js';
+import { runWithTrace } from '../utils/tracing.js';
+import { InvalidParamsError } from '../utils/errors.js';
 
-// Get ALL endpoint keys directly from the configuration
-const ALL_ENDPOINT_KEYS = Object.keys(endpoints);
+// Accepted values for the per-call response cache option
+const CACHE_MODES: CacheMode[] = ['default', 'refresh', 'bypass'];
+
+/**
+ * One line per endpoint key listing the parameters it accepts, for the params description
+ */
+function describeParamsByKind(endpointKeys: string[]): string {
+  return endpointKeys.map(key => `${key}: ${describeEndpointParams(key).summary}`).join('; ');
+}
 
 /**
  * Helper to create the consolidated tool definition.
+ * @param toolName MCP tool name
+ * @param endpointKeys Endpoint keys the tool may call
+ * @param scope What the tool queries, for its description
  */
-function buildConsolidatedTool(toolName: string, endpointKeys: string[]) {
+function buildConsolidatedTool(toolName: string, endpointKeys: string[], scope = 'ATTOM API') {
   // Build a Zod schema for runtime validation.
   // Loosen params validation slightly at this stage due to potential Inspector nesting issue
   const toolSchema = z.object({
@@ -29,11 +44,15 @@ function buildConsolidatedTool(toolName: string, endpointKeys: string[]) {
       .optional()
       .default({})
       .describe('Parameters for the selected endpoint'),
+    cache: z.enum(CACHE_MODES as [CacheMode, ...CacheMode[]]).optional().describe('Response cache mode for this call'),
+    tenant: z.string().optional().describe('ATTOM tenant to bill this call to'),
+    trace: z.boolean().optional().describe('Include the execution trace in the result'),
+    normalizeAddress: z.boolean().optional().describe('Normalize address parameters before the query'),
   });
 
   return {
     name: toolName,
-    description: `Execute an ATTOM API query. Specify the target endpoint using the 'kind' parameter (one of: ${endpointKeys.join(', ')})`, // Updated description
+    description: `Execute an ${scope} query. Specify the target endpoint using the 'kind' parameter (one of: ${endpointKeys.join(', ')})`, // Updated description
     parameters: {
       type: 'object',
       properties: {
@@ -43,9 +62,20 @@ function buildConsolidatedTool(toolName: string, endpointKeys: string[]) {
         },
         params: {
           type: 'object',
-          description: 'Parameters to forward to the selected endpoint (e.g., {"address1": "...", "address2": "..."})', // Updated example
+          description: `Parameters to forward to the selected endpoint (e.g., {"address1": "...", "address2": "..."}). Accepted per kind: ${describeParamsByKind(endpointKeys)}`,
           additionalProperties: true, // Allow any parameters
         },
+        cache: {
+          type: 'string',
+          enum: CACHE_MODES,
+          description: `Response cache mode (one of: ${CACHE_MODES.join(', ')}). 'refresh' fetches fresh data and re-caches it, 'bypass' skips the cache entirely. Defaults to 'default'.`,
+        },
+        ...describeTenantParam(),
+        trace: {
+          type: 'boolean',
+          description: 'Add an executionTrace to the result listing the address normalization, fallback lookups and upstream calls this query made, with their timings and whether each was served from cache. Defaults to false.',
+        },
+        ...describeNormalizeAddressParam(),
       },
       required: ['kind'], // Only 'kind' is strictly required by this tool wrapper
     },
@@ -55,16 +85,23 @@ function buildConsolidatedTool(toolName: string, endpointKeys: string[]) {
 
       let kind: string;
       let paramsFromInput: Record<string, any>;
+      let cacheMode: CacheMode | undefined;
+      let tenant: string | undefined;
 
       try {
         // Basic validation for top-level structure
         if (typeof input !== 'object' || input === null) {
-            throw new Error('Invalid input: Expected an object.');
+            throw new InvalidParamsError('Invalid input: Expected an object.');
         }
-        if (typeof input.kind !== 'string' || !ALL_ENDPOINT_KEYS.includes(input.kind)) {
-            throw new Error(`Invalid or missing 'kind'. Must be one of: ${ALL_ENDPOINT_KEYS.join(', ')}`);
+        if (typeof input.kind !== 'string' || !endpointKeys.includes(input.kind)) {
+            throw new InvalidParamsError(`Invalid or missing 'kind'. Must be one of: ${endpointKeys.join(', ')}`);
+        }
+        if (input.cache !== undefined && !CACHE_MODES.includes(input.cache)) {
+            throw new InvalidParamsError(`Invalid 'cache'. Must be one of: ${CACHE_MODES.join(', ')}`);
         }
          kind = input.kind;
+         cacheMode = input.cache;
+         tenant = input.tenant;
          // Use input.params directly, default to {} if missing
          paramsFromInput = (typeof input.params === 'object' && input.params !== null) ? input.params : {}; 
          writeLog(`[${toolName} Handler] Initial kind: ${kind}`);
@@ -85,22 +122,39 @@ function buildConsolidatedTool(toolName: string, endpointKeys: string[]) {
 
       writeLog(`[${toolName} Handler] Params before normalization: ${JSON.stringify(actualParams, null, 2)}`);
 
-      // Normalize address fields within the actual parameters object
-      const normalizedParams = await normalizeAddressInParams(actualParams);
+      // Everything from here on (Places lookups, fallbacks, fetches, log lines) shares one correlation ID
+      const { result, trace } = await runWithTrace(async () => {
+        // Normalize address fields within the actual parameters object, unless the caller opted out
+        const normalizeAddress = input.normalizeAddress !== false;
+        const normalizedParams = normalizeAddress ? await normalizeAddressInParams(actualParams) : actualParams;
+
+        writeLog(`[${toolName} Handler] Normalized params (after normalization): ${JSON.stringify(normalizedParams)}`);
 
-      writeLog(`[${toolName} Handler] Normalized params (after normalization): ${JSON.stringify(normalizedParams)}`);
+        // Proceed with executeQuery using the extracted kind and normalized (potentially un-nested) params
+        return runAsTenant(tenant, () => executeAttomQuery(kind, normalizedParams, { cacheMode, normalizeAddress }));
+      });
 
-      // Proceed with executeQuery using the extracted kind and normalized (potentially un-nested) params
-      return executeAttomQuery(kind, normalizedParams);
+      writeLog(`[${toolName} Handler] Trace ${trace.traceId}: ${trace.spans.length} steps in ${trace.durationMs} ms`, 'debug');
+      return input.trace === true ? { ...result, executionTrace: trace } : result;
     },
   } as const;
 }
 
-// Build the single tool instance
-const attomQueryTool = buildConsolidatedTool(
-  'attom_query', // New single tool name
-  ALL_ENDPOINT_KEYS // Use all endpoint keys
-);
-
-// Export only the single consolidated tool in the array expected by mcpServer.ts
-export const groupedTools = [attomQueryTool] as const;
+/**
+ * Build the gateway tools for a set of endpoints
+ * @param endpointKeys Endpoint keys to expose
+ * @param byCategory One `attom_<category>_query` tool per EndpointCategory instead of a single `attom_query`
+ * @returns Tool definitions (none if no endpoint is exposed)
+ */
+export function buildGroupedTools(endpointKeys: string[], byCategory = false) {
+  if (endpointKeys.length === 0) {
+    return [];
+  }
+  if (!byCategory) {
+    return [buildConsolidatedTool('attom_query', endpointKeys)];
+  }
+  return Object.values(EndpointCategory)
+    .map(category => ({ category, keys: endpointKeys.filter(key => endpoints[key].category === category) }))
+    .filter(({ keys }) => keys.length > 0)
+    .map(({ category, keys }) => buildConsolidatedTool(`attom_${category}_query`, keys, `ATTOM ${category}`));
+}
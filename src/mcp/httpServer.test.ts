@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { createMcpServer } from './mcpServer.js';
+import { getHttpServerOptionsFromEnv, HttpTransportType, McpHttpServer, startHttpServer } from './httpServer.js';
+import { ClientRegistry } from './clientRegistry.js';
+
+const start = (transports: HttpTransportType[], clientRegistry?: ClientRegistry) => startHttpServer(client => createMcpServer(undefined, client), {
+  host: '127.0.0.1',
+  port: 0,
+  transports,
+  path: '/mcp',
+  ssePath: '/sse',
+  sseMessagesPath: '/messages',
+  sessionIdleTimeoutMs: 0,
+  maxBodyBytes: 1024 * 1024,
+  clientRegistry,
+});
+
+describe('Streamable HTTP server', () => {
+  let httpServer: McpHttpServer;
+
+  beforeAll(async () => {
+    httpServer = await start(['http']);
+  });
+
+  afterAll(async () => {
+    await httpServer.close();
+  });
+
+  it('answers the health and readiness probes', async () => {
+    const health = await fetch(`${httpServer.url}/healthz`);
+    const ready = await fetch(`${httpServer.url}/readyz`);
+
+    expect(health.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: 'ready' });
+  });
+
+  it('serves Prometheus metrics', async () => {
+    const response = await fetch(`${httpServer.url}/metrics`);
+
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(await response.text()).toContain('# TYPE attom_upstream_requests_total counter');
+  });
+
+  it('opens a session per client and closes it on terminate', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`));
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toContain('attom_query');
+    expect(transport.sessionId).toBeDefined();
+    expect(httpServer.sessionCount).toBe(1);
+
+    await transport.terminateSession();
+    await client.close();
+    expect(httpServer.sessionCount).toBe(0);
+  });
+
+  it('rejects requests for unknown sessions', async () => {
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'mcp-session-id': 'nope' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('HTTP+SSE alongside Streamable HTTP', () => {
+  let httpServer: McpHttpServer;
+
+  beforeAll(async () => {
+    httpServer = await start(['http', 'sse']);
+  });
+
+  afterAll(async () => {
+    await httpServer.close();
+  });
+
+  it('serves legacy SSE clients from the same listener', async () => {
+    const transport = new SSEClientTransport(new URL(`${httpServer.url}/sse`));
+    const client = new Client({ name: 'legacy', version: '1.0.0' });
+    await client.connect(transport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toContain('attom_query');
+    expect(httpServer.sessionCount).toBe(1);
+
+    await client.close();
+    await new Promise(resolve => setTimeout(resolve, 50)); // Let the server see the stream close
+    expect(httpServer.sessionCount).toBe(0);
+  });
+
+  it('rejects messages for unknown SSE sessions', async () => {
+    const response = await fetch(`${httpServer.url}/messages?sessionId=nope`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('leaves the SSE routes off unless enabled', async () => {
+    const streamableOnly = await start(['http']);
+    const response = await fetch(`${streamableOnly.url}/sse`);
+    await streamableOnly.close();
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('client authentication', () => {
+  let httpServer: McpHttpServer;
+
+  const connect = async (key: string) => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${key}` } },
+    });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  beforeAll(async () => {
+    httpServer = await start(['http', 'sse'], new ClientRegistry([
+      { id: 'acme', keys: ['acme-secret'], allowedEndpoints: ['avmSnapshot'] },
+      { id: 'globex', keys: ['globex-secret'] },
+      { id: 'scraper', keys: ['scraper-secret'], admin: true },
+    ]));
+  });
+
+  afterAll(async () => {
+    await httpServer.close();
+  });
+
+  it('rejects MCP requests without a registered key but leaves the probes open', async () => {
+    const anonymous = await fetch(`${httpServer.url}/mcp`, { method: 'POST' });
+    const wrongKey = await fetch(`${httpServer.url}/sse`, { headers: { 'X-API-Key': 'nope' } });
+    const health = await fetch(`${httpServer.url}/healthz`);
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toContain('Bearer');
+    expect(wrongKey.status).toBe(401);
+    expect(health.status).toBe(200);
+  });
+
+  it('serves metrics only to admin clients', async () => {
+    const metrics = (headers?: Record<string, string>) => fetch(`${httpServer.url}/metrics`, { headers });
+
+    const anonymous = await metrics();
+    const regular = await metrics({ Authorization: 'Bearer globex-secret' });
+    const admin = await metrics({ Authorization: 'Bearer scraper-secret' });
+
+    expect(anonymous.status).toBe(401);
+    expect(regular.status).toBe(403);
+    expect(admin.status).toBe(200);
+    expect(admin.headers.get('content-type')).toContain('text/plain');
+  });
+
+  it('limits the gateway tool to the client\'s allowed endpoints', async () => {
+    const { client } = await connect('acme-secret');
+
+    const result = await client.callTool({ name: 'attom_query', arguments: { kind: 'saleDetail', params: { attomid: '1' } } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as any[])[0].text).error).toMatchObject({
+      code: 'INVALID_PARAMS',
+      message: "Invalid or missing 'kind'. Must be one of: avmSnapshot",
+      retryable: false,
+    });
+    await client.close();
+  });
+
+  it('does not let one client use another client\'s session', async () => {
+    const { client, transport } = await connect('acme-secret');
+
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer globex-secret',
+        'mcp-session-id': transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+    await client.close();
+  });
+});
+
+describe('getHttpServerOptionsFromEnv', () => {
+  it('falls back to the defaults for malformed numbers', () => {
+    process.env.PORT = 'http';
+    process.env.MCP_SESSION_IDLE_TIMEOUT_MS = 'half an hour';
+    process.env.MCP_HTTP_MAX_BODY_BYTES = '-1';
+    try {
+      expect(getHttpServerOptionsFromEnv()).toMatchObject({ port: 3000, sessionIdleTimeoutMs: 1800000, maxBodyBytes: 1048576 });
+    } finally {
+      delete process.env.PORT;
+      delete process.env.MCP_SESSION_IDLE_TIMEOUT_MS;
+      delete process.env.MCP_HTTP_MAX_BODY_BYTES;
+    }
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Streamable HTTP Server
+ *
+ * Serves MCP over the Streamable HTTP transport as a network service: one
+ * stateful session (with its own McpServer and resumable event stream) per
+ * client, plus /healthz and /readyz probes for orchestrators and /metrics for
+ * Prometheus. The deprecated
+ * HTTP+SSE transport can be served from the same listener for older clients.
+ * With a client registry, every MCP request must authenticate and is served
+ * on behalf of its client, and /metrics answers only to admin clients.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { AddressInfo } from "node:net";
+import dotenv from "dotenv";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import { ClientRegistry, loadClientRegistryFromEnv } from "./clientRegistry.js";
+import { ClientIdentity, runAsClient, runInSession } from "../utils/clientContext.js";
+import { assertTenantAllowed, runAsTenant } from "../utils/tenants.js";
+import { AttomApiError } from "../utils/errors.js";
+import { writeLog } from "../utils/logger.js";
+import { renderMetrics } from "../utils/metrics.js";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * MCP transports the HTTP listener can serve
+ * - http: Streamable HTTP (protocol revision 2025-03-26)
+ * - sse: deprecated HTTP+SSE (protocol revision 2024-11-05)
+ */
+export type HttpTransportType = 'http' | 'sse';
+
+/**
+ * Listener settings of the HTTP server
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;                 // 0 picks a free port
+  transports: HttpTransportType[];
+  path: string;                 // Streamable HTTP endpoint path
+  ssePath: string;              // HTTP+SSE stream path (GET)
+  sseMessagesPath: string;      // HTTP+SSE message path (POST ?sessionId=)
+  sessionIdleTimeoutMs: number; // Sessions without requests for this long are closed; 0 disables
+  maxBodyBytes: number;
+  clientRegistry?: ClientRegistry; // Require authentication as one of its clients; open access when unset
+}
+
+/**
+ * Handle of a running HTTP server
+ */
+export interface McpHttpServer {
+  /** Base URL the server listens on */
+  readonly url: string;
+  /** Number of open MCP sessions */
+  readonly sessionCount: number;
+  /** Stop accepting sessions, close the open ones and the listener */
+  close(): Promise<void>;
+}
+
+interface Session<T extends StreamableHTTPServerTransport | SSEServerTransport> {
+  transport: T;
+  server: McpServer;
+  client?: ClientIdentity;
+  tenantId?: string;            // Tenant selected with X-ATTOM-Tenant when the session was opened
+  lastSeen: number;
+}
+
+/**
+ * Read a whole-number setting from the environment; a malformed value falls
+ * back to the default rather than rejecting every request (NaN body limit) or
+ * disabling session expiry (NaN idle timeout)
+ */
+function envInt(name: string, defaultValue: number, min: number): number {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isFinite(value) && value >= min ? value : defaultValue;
+}
+
+/**
+ * Read the listener settings from the environment
+ * @param transports Transports to serve on the listener
+ */
+export function getHttpServerOptionsFromEnv(transports: HttpTransportType[] = ['http']): HttpServerOptions {
+  return {
+    host: process.env.HOST ?? '127.0.0.1',
+    port: envInt('PORT', 3000, 0),
+    transports,
+    path: process.env.MCP_HTTP_PATH ?? '/mcp',
+    ssePath: process.env.MCP_SSE_PATH ?? '/sse',
+    sseMessagesPath: process.env.MCP_SSE_MESSAGES_PATH ?? '/messages',
+    sessionIdleTimeoutMs: envInt('MCP_SESSION_IDLE_TIMEOUT_MS', 1800000, 0),
+    maxBodyBytes: envInt('MCP_HTTP_MAX_BODY_BYTES', 1048576, 1),
+    clientRegistry: loadClientRegistryFromEnv(),
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Get the tenant a new session asks for with the X-ATTOM-Tenant header
+ * @returns The tenant ID (undefined for the client's default), or null after an error response has been sent
+ */
+function readSessionTenant(req: IncomingMessage, res: ServerResponse): string | undefined | null {
+  const header = req.headers['x-attom-tenant'];
+  const tenantId = (Array.isArray(header) ? header[0] : header)?.trim() || undefined;
+  if (tenantId === undefined) {
+    return undefined;
+  }
+  try {
+    assertTenantAllowed(tenantId);
+    return tenantId;
+  } catch (error) {
+    const status = error instanceof AttomApiError && error.status ? error.status : 400;
+    sendJsonRpcError(res, status, -32000, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ * @returns The parsed body, or undefined after an error response has been sent
+ */
+async function readJsonBody(req: IncomingMessage, res: ServerResponse, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      sendJsonRpcError(res, 413, -32600, `Request body exceeds ${maxBytes} bytes`);
+      return undefined;
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    sendJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+    return undefined;
+  }
+}
+
+/**
+ * Start the HTTP server
+ * @param createSessionServer Creates the McpServer for each new session, for the
+ * authenticated client (undefined without a client registry)
+ * @param options Listener settings (defaults from HOST, PORT, MCP_HTTP_PATH, ...)
+ * @returns Handle to inspect and close the server
+ */
+export async function startHttpServer(
+  createSessionServer: (client?: ClientIdentity) => McpServer,
+  options: HttpServerOptions = getHttpServerOptionsFromEnv()
+): Promise<McpHttpServer> {
+  const sessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+  const openSessionCount = () => sessions.size + sseSessions.size;
+  let draining = false;
+
+  async function openSession(req: IncomingMessage, res: ServerResponse, body: unknown, client?: ClientIdentity): Promise<void> {
+    const tenantId = readSessionTenant(req, res);
+    if (tenantId === null) {
+      return; // Error response already sent
+    }
+    const server = createSessionServer(client);
+    // Known up front so the initialize request already runs in the session
+    const newSessionId = randomUUID();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => newSessionId,
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: sessionId => {
+        sessions.set(sessionId, { transport, server, client, tenantId, lastSeen: Date.now() });
+        writeLog(`[HttpServer] Session ${sessionId} opened (${openSessionCount()} open)`);
+      },
+    });
+    await server.connect(transport);
+    // Protocol.connect takes over transport.onclose; the server's own hook fires after it
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+      previousOnClose?.();
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        writeLog(`[HttpServer] Session ${transport.sessionId} closed (${openSessionCount()} open)`);
+      }
+    };
+    await runInSession(newSessionId, () => runAsTenant(tenantId, () => transport.handleRequest(req, res, body)));
+  }
+
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse, client?: ClientIdentity): Promise<void> {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req, res, options.maxBodyBytes) : undefined;
+    if (req.method === 'POST' && body === undefined) {
+      return; // Error response already sent
+    }
+
+    if (sessionId) {
+      // Sessions only answer to the client that opened them
+      const session = sessions.get(sessionId);
+      if (!session || session.client?.id !== client?.id) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await runInSession(sessionId, () => runAsTenant(session.tenantId, () => session.transport.handleRequest(req, res, body)));
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      return;
+    }
+    if (draining) {
+      sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+    await openSession(req, res, body, client);
+  }
+
+  // HTTP+SSE: the GET stream is the session; the client posts its messages
+  // to the endpoint announced on the stream
+  async function openSseSession(req: IncomingMessage, res: ServerResponse, client?: ClientIdentity): Promise<void> {
+    if (draining) {
+      sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+    const tenantId = readSessionTenant(req, res);
+    if (tenantId === null) {
+      return; // Error response already sent
+    }
+    const server = createSessionServer(client);
+    const transport = new SSEServerTransport(options.sseMessagesPath, res);
+    sseSessions.set(transport.sessionId, { transport, server, client, tenantId, lastSeen: Date.now() });
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+      previousOnClose?.();
+      if (sseSessions.delete(transport.sessionId)) {
+        writeLog(`[HttpServer] SSE session ${transport.sessionId} closed (${openSessionCount()} open)`);
+      }
+    };
+    await server.connect(transport);
+    writeLog(`[HttpServer] SSE session ${transport.sessionId} opened (${openSessionCount()} open)`);
+  }
+
+  async function handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+    client?: ClientIdentity
+  ): Promise<void> {
+    const session = sessionId ? sseSessions.get(sessionId) : undefined;
+    if (!session || session.client?.id !== client?.id) {
+      sendJsonRpcError(res, sessionId ? 404 : 400, -32001, sessionId ? 'Session not found' : 'Bad Request: sessionId query parameter is required');
+      return;
+    }
+    const body = await readJsonBody(req, res, options.maxBodyBytes);
+    if (body === undefined) {
+      return; // Error response already sent
+    }
+    session.lastSeen = Date.now();
+    await runInSession(session.transport.sessionId, () => runAsTenant(session.tenantId, () => session.transport.handlePostMessage(req, res, body)));
+  }
+
+  const serves = (transport: HttpTransportType) => options.transports.includes(transport);
+
+  // Authenticate an MCP request and run its route handler on behalf of the
+  // client, answering with a JSON-RPC error if it throws
+  const route = (
+    req: IncomingMessage,
+    res: ServerResponse,
+    pathname: string,
+    handler: (client?: ClientIdentity) => Promise<void>
+  ) => {
+    const client = options.clientRegistry?.authenticate(req.headers);
+    if (options.clientRegistry && !client) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="attom-mcp"');
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized: send a registered key as a Bearer token or X-API-Key header');
+      return;
+    }
+    runAsClient(client, () => handler(client)).catch((error: Error) => {
+      writeLog(`[HttpServer] Error handling ${req.method} ${pathname}: ${error.message}`, 'error');
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === '/healthz') {
+      sendJson(res, 200, { status: 'ok', sessions: openSessionCount() });
+    } else if (pathname === '/readyz') {
+      const reason = draining ? 'shutting down' : !process.env.ATTOM_API_KEY ? 'ATTOM_API_KEY is not set' : undefined;
+      sendJson(res, reason ? 503 : 200, reason ? { status: 'not ready', reason } : { status: 'ready' });
+    } else if (pathname === '/metrics' && req.method === 'GET') {
+      // Metrics cover every client and tenant of the process, so with a
+      // registry only a client flagged admin may scrape them
+      const client = options.clientRegistry?.authenticate(req.headers);
+      if (options.clientRegistry && !client) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="attom-mcp"');
+        sendJson(res, 401, { error: 'Unauthorized: send a registered key as a Bearer token or X-API-Key header' });
+      } else if (client && client.admin !== true) {
+        sendJson(res, 403, { error: `Client ${client.id} may not read metrics` });
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }).end(renderMetrics());
+      }
+    } else if (serves('http') && pathname === options.path) {
+      route(req, res, pathname, client => handleMcpRequest(req, res, client));
+    } else if (serves('sse') && pathname === options.ssePath && req.method === 'GET') {
+      route(req, res, pathname, client => openSseSession(req, res, client));
+    } else if (serves('sse') && pathname === options.sseMessagesPath && req.method === 'POST') {
+      route(req, res, pathname, client => handleSseMessage(req, res, searchParams.get('sessionId'), client));
+    } else {
+      sendJson(res, 404, { error: `Not found: ${pathname}` });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  // Close sessions whose clients went away without a DELETE (or left an SSE stream open)
+  const sweep = options.sessionIdleTimeoutMs > 0
+    ? setInterval(() => {
+        const cutoff = Date.now() - options.sessionIdleTimeoutMs;
+        for (const [sessionId, session] of [...sessions, ...sseSessions]) {
+          if (session.lastSeen < cutoff) {
+            writeLog(`[HttpServer] Closing idle session ${sessionId}`);
+            session.transport.close().catch(() => undefined);
+          }
+        }
+      }, Math.min(options.sessionIdleTimeoutMs, 60_000))
+    : undefined;
+  sweep?.unref(); // Never keep the process alive on its own
+
+  const { port } = httpServer.address() as AddressInfo;
+  const url = `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`;
+  const endpoints = [
+    ...(serves('http') ? [`${options.path} (Streamable HTTP)`] : []),
+    ...(serves('sse') ? [`${options.ssePath} (HTTP+SSE)`] : []),
+  ];
+  writeLog(`[HttpServer] Listening on ${url}: ${endpoints.join(', ')}`);
+  if (!options.clientRegistry && !['127.0.0.1', 'localhost', '::1'].includes(options.host)) {
+    writeLog('[HttpServer] No client registry (MCP_CLIENTS_FILE) configured; anyone who can reach the listener can spend the ATTOM quota', 'warn');
+  }
+
+  return {
+    url,
+    get sessionCount() {
+      return openSessionCount();
+    },
+    async close() {
+      draining = true;
+      clearInterval(sweep);
+      const open = [...sessions.values(), ...sseSessions.values()];
+      await Promise.all(open.map(session => session.server.close().catch(() => undefined)));
+      sessions.clear();
+      sseSessions.clear();
+      await new Promise<void>(resolve => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+      writeLog('[HttpServer] Stopped');
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from './mcpServer.js';
+import { addLogSink, writeLog } from '../utils/logger.js';
+import { runInSession } from '../utils/clientContext.js';
+import { McpNotificationSink } from './logNotifications.js';
+
+describe('log notifications', () => {
+  it('forwards log records at the level the client sets', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const server = createMcpServer({ mode: 'gateway', keepLegacyTools: false, deny: [] });
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const received: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      received.push(notification.params);
+    });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    await client.setLoggingLevel('warning');
+    writeLog('[Test] not forwarded');
+    writeLog('[Test] Lookup failed for 1 Main St', 'warn');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(received).toEqual([
+      { level: 'warning', logger: 'Test', data: expect.objectContaining({ msg: 'Lookup failed for [REDACTED]' }) },
+    ]);
+    await client.close();
+  });
+
+  it('forwards only the records of its own HTTP session', () => {
+    const sendLoggingMessage = vi.fn().mockResolvedValue(undefined);
+    const server = { transport: { sessionId: 'session-a' }, sendLoggingMessage } as unknown as Server;
+    const sink = new McpNotificationSink(server, undefined, 'info');
+    const record = (sessionId?: string) => ({ time: '', level: 'info' as const, msg: 'call', ...(sessionId ? { sessionId } : {}) });
+
+    sink.write(record('session-a'));
+    sink.write(record('session-b'));
+    sink.write(record());
+
+    expect(sendLoggingMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('tags records written inside a session with its ID', () => {
+    const sendLoggingMessage = vi.fn().mockResolvedValue(undefined);
+    const server = { transport: { sessionId: 'session-c' }, sendLoggingMessage } as unknown as Server;
+    const sink = new McpNotificationSink(server, undefined, 'info');
+    const removeSink = addLogSink(sink);
+
+    runInSession('session-c', () => writeLog('[Test] inside'));
+    writeLog('[Test] outside');
+    removeSink();
+
+    expect(sendLoggingMessage).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ msg: 'inside', sessionId: 'session-c' }) }));
+    expect(sendLoggingMessage).toHaveBeenCalledTimes(1);
+  });
+});
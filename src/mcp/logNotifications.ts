@@ -0,0 +1,71 @@
+/**
+ * MCP Log Notifications
+ *
+ * Forwards log records to MCP clients as `notifications/message`, honouring
+ * the level a client asks for with `logging/setLevel`.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LoggingLevel, SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { addLogSink, getMinLogLevel, isLevelEnabled, LogLevel, LogRecord, LogSink } from "../utils/logger.js";
+import { ClientIdentity } from "../utils/clientContext.js";
+
+// MCP has syslog-style levels; ours map onto the closest one each way
+const TO_MCP_LEVEL: Record<LogLevel, LoggingLevel> = { debug: 'debug', info: 'info', warn: 'warning', error: 'error' };
+const FROM_MCP_LEVEL: Record<LoggingLevel, LogLevel> = {
+  debug: 'debug', info: 'info', notice: 'info', warning: 'warn',
+  error: 'error', critical: 'error', alert: 'error', emergency: 'error',
+};
+
+/**
+ * Sends log records to one connected MCP client
+ */
+export class McpNotificationSink implements LogSink {
+  constructor(
+    private readonly server: Server,
+    private readonly clientId?: string, // Only forward records written for this client; all of the session's records when unset
+    public minLevel: LogLevel = getMinLogLevel()
+  ) {}
+
+  write(record: LogRecord): void {
+    if (!isLevelEnabled(record.level, this.minLevel) || (this.clientId && record.clientId !== this.clientId)) {
+      return;
+    }
+    // Over HTTP every session has its own sink: forward only the records written for this
+    // session, never other sessions' calls (stdio serves a single session and gets them all)
+    const sessionId = this.server.transport?.sessionId;
+    if (sessionId && record.sessionId !== sessionId) {
+      return;
+    }
+    // Never log delivery failures: that would come straight back here
+    this.server
+      .sendLoggingMessage({ level: TO_MCP_LEVEL[record.level], logger: record.module, data: record })
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Forward log records to the server's client once it has initialized, until the connection closes.
+ * The server must declare the `logging` capability.
+ * @param server MCP server
+ * @param client Authenticated client of the session; limits forwarding to its own records
+ */
+export function registerLogNotifications(server: McpServer, client?: ClientIdentity): void {
+  const sink = new McpNotificationSink(server.server, client?.id);
+  let removeSink: (() => void) | undefined;
+
+  server.server.setRequestHandler(SetLevelRequestSchema, async request => {
+    sink.minLevel = FROM_MCP_LEVEL[request.params.level];
+    return {};
+  });
+
+  server.server.oninitialized = () => {
+    removeSink ??= addLogSink(sink);
+  };
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    removeSink?.();
+    previousOnClose?.();
+  };
+}
@@ -1,6 +1,23 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { createMcpServer } from './mcpServer.js'; // Added .js extension
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'; // Try specific subpath import
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ClientIdentity } from '../utils/clientContext.js';
+
+// Tools a server created for the given client registers
+async function listTools(client?: ClientIdentity) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const mcpClient = new Client({ name: 'test', version: '1.0.0' });
+  await Promise.all([createMcpServer(undefined, client).connect(serverTransport), mcpClient.connect(clientTransport)]);
+  const { tools } = await mcpClient.listTools();
+  await mcpClient.close();
+  return tools;
+}
+
+async function listToolNames(client?: ClientIdentity): Promise<string[]> {
+  return (await listTools(client)).map(tool => tool.name);
+}
 
 describe('MCP Server Setup', () => {
   it('should create an MCP server instance without errors', () => {
@@ -20,5 +37,25 @@ describe('MCP Server Setup', () => {
     // Optional: Add more specific checks later if needed
   });
 
+  it('lists the accepted cache modes in the tool input schema', async () => {
+    const query = (await listTools()).find(tool => tool.name === 'attom_query');
+
+    expect(query?.inputSchema.properties?.cache).toMatchObject({ type: 'string', enum: ['default', 'refresh', 'bypass'] });
+  });
+
   // Add more tests here as needed for tools, resources, etc.
-});
\ No newline at end of file
+});
+
+describe('admin tools', () => {
+  afterEach(() => {
+    delete process.env.ATTOM_ADMIN_TOOLS;
+  });
+
+  it('are only registered for registered clients with the admin flag', async () => {
+    process.env.ATTOM_ADMIN_TOOLS = 'true';
+
+    expect(await listToolNames()).toContain('attom_admin_purge_address');
+    expect(await listToolNames({ id: 'ops', admin: true })).toContain('attom_admin_purge_address');
+    expect(await listToolNames({ id: 'reporting-agent' })).not.toContain('attom_admin_purge_address');
+  });
+});
@@ -8,27 +8,61 @@
 // Import MCP SDK modules using ES module imports
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { z } from "zod";
-import { groupedTools } from './groupedTools.js'; // Import groupedTools
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { buildToolsForProfile, getExposedEndpointKeys, getToolProfileFromEnv, restrictToolProfile, ToolCallContext, ToolProfile } from './toolProfile.js';
+import { buildBatchTools } from './batchTool.js';
 import { AttomService } from "../services/attomService.js";
-import { normalizeAddressStringForAttom } from "../utils/googlePlaces.js";
-import { writeLog } from "../utils/logger.js";
+import { registerPropertyResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { registerLogNotifications } from "./logNotifications.js";
+import { getHttpServerOptionsFromEnv, HttpTransportType, startHttpServer } from "./httpServer.js";
+import { protectStdout, writeLog } from "../utils/logger.js";
+import { ClientIdentity } from "../utils/clientContext.js";
+import { endpoints } from "../config/endpointConfig.js";
+import { toErrorPayload } from "../utils/errors.js";
 
 // Create ATTOM service instance
 const attomService = new AttomService();
 
+/**
+ * Pass a tool handler the call's abort signal and, if the client sent a
+ * progressToken with the call, a way to send it notifications/progress
+ */
+function toolCallContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolCallContext {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return { signal: extra.signal };
+  }
+  return {
+    signal: extra.signal,
+    reportProgress: (progress, total) =>
+      extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total } }),
+  };
+}
+
 /**
  * Create and configure the MCP server
+ * @param deploymentProfile Which ATTOM tools to register (defaults to the env-configured profile)
+ * @param client Authenticated client the server is created for; narrows the tools to its allowed endpoints
  */
-export function createMcpServer() {
+export function createMcpServer(deploymentProfile: ToolProfile = getToolProfileFromEnv(), client?: ClientIdentity) {
+  const toolProfile = restrictToolProfile(deploymentProfile, client?.allowedEndpoints);
+
   // Create an MCP server
   const server = new McpServer({
     name: "ATTOM Property Data",
     version: "1.0.0",
     description: "Access property data, sales history, and more through the ATTOM API"
+  }, {
+    capabilities: { logging: {} }
   });
 
+  // Forward log records to the client as notifications/message
+  registerLogNotifications(server, client);
+
   // Standalone tools (normalize_address, search_property) removed to enforce
   // interaction via groupedTools -> queryManager logic chain.
 
@@ -36,12 +70,12 @@ export function createMcpServer() {
   function createZodSchemaFromProperties(properties: any, required: readonly string[] = []): z.ZodRawShape {
     const shape: z.ZodRawShape = {};
     for (const [key, prop] of Object.entries(properties)) {
-      const propValue = prop as { type: string; description?: string };
+      const propValue = prop as { type: string; description?: string; enum?: readonly string[] };
       let fieldSchema: z.ZodTypeAny;
 
       switch (propValue.type) {
         case 'string':
-          fieldSchema = z.string();
+          fieldSchema = propValue.enum?.length ? z.enum(propValue.enum as [string, ...string[]]) : z.string();
           break;
         case 'number':
           fieldSchema = z.number();
@@ -67,12 +101,17 @@ export function createMcpServer() {
     return shape;
   }
 
-  // Decide whether to keep legacy per‑endpoint tools based on env flag
-  // If KEEP_LEGACY_TOOLS is set to the string "true" we append the older one‑endpoint tools.
-  // Otherwise (unset, "false", any other value) we expose only the 4 grouped tools.
+  // The tool profile picks gateway, per-category or per-endpoint tools (plus the
+  // per-endpoint tools when KEEP_LEGACY_TOOLS is "true") limited to the allowed endpoints;
+  // the batch tool reaches the same endpoints
+  const tools = [
+    ...buildToolsForProfile(toolProfile),
+    ...buildBatchTools(getExposedEndpointKeys(toolProfile), attomService)
+  ];
+  writeLog(`[McpServer] Registering ${tools.length} ATTOM tools (mode: ${toolProfile.mode})`);
 
-  // Register the grouped ATTOM API tools
-  for (const tool of groupedTools) {
+  // Register the ATTOM API tools
+  for (const tool of tools) {
     let zodShape: z.ZodRawShape = {};
 
     if (tool.parameters.type === 'object' && tool.parameters.properties) {
@@ -80,37 +119,34 @@ export function createMcpServer() {
       zodShape = createZodSchemaFromProperties(tool.parameters.properties, tool.parameters.required ?? []);
     } else {
        // Handle cases without properties (e.g., no params needed)
-       console.warn(`[MCP Server] Tool ${tool.name} has no properties defined in parameters.`);
+       writeLog(`[McpServer] Tool ${tool.name} has no properties defined in parameters.`, 'warn');
        zodShape = {}; // Empty shape for tools with no parameters
     }
 
     server.tool(
       tool.name,
+      tool.description,
       zodShape, // Pass the generated ZodRawShape
-      async (params: Record<string, any>) => {
+      async (params: Record<string, any>, extra) => {
         try {
           writeLog(`[McpServer:Handler] Invoking tool: ${tool.name}, Params: ${JSON.stringify(params)}`);
           // Convert params to the expected format for the handler
-          const result = await tool.handler(params as any);
+          const result = await tool.handler(params as any, toolCallContext(extra));
           writeLog(`[McpServer:Handler] Tool ${tool.name} executed successfully.`);
           return {
-            content: [{ type: "text", text: JSON.stringify(result, null, 2) }]
+            content: [{ type: "text", text: JSON.stringify(result, null, tool.compactOutput ? undefined : 2) }]
           };
         } catch (error: any) {
-          writeLog(`[McpServer:Handler] Error in tool ${tool.name}: ${error instanceof Error ? error.message : String(error)}`); // Log message first
-          // Log the full error server-side for better debugging
-          console.error("[MCP Error Handler] Caught error:", error);
-          // Construct detailed error response
-          const errorResponse = {
-            success: false,
-            error: error.message ?? error.stack ?? "Unknown error", 
-            details: error.details, // Include details if they exist
-            params // Include original params for context
-          };
+          const payload = toErrorPayload(error);
+          // Log the error server-side (with its stack at debug level) for better debugging
+          writeLog(`[McpServer:Handler] Error in tool ${tool.name}: ${payload.code} ${payload.message}`, payload.code === 'INTERNAL_ERROR' ? 'error' : 'warn');
+          writeLog(`[McpServer:Handler] ${error?.stack ?? String(error)}`, 'debug');
+          // Tool errors are results the agent can act on: the code says whether to fix the call, give up or retry later
           return {
-            content: [{ 
-              type: "text", 
-              text: JSON.stringify(errorResponse, null, 2)
+            isError: true,
+            content: [{
+              type: "text",
+              text: JSON.stringify({ error: payload, params }, null, 2)
             }]
           };
         }
@@ -118,70 +154,193 @@ export function createMcpServer() {
     );
   }
 
-  // Add property resource
+  // Property, area and school resource templates
+  registerPropertyResources(server, attomService, client);
+
+  // Expose remaining ATTOM quota so clients can pace their calls; registered clients
+  // only see their allowed endpoints under the API keys of their tenants
   server.resource(
-    "property",
-    new ResourceTemplate("property://{address}", { list: undefined }),
-    async (uri: URL, params: Record<string, any>) => {
-      const rawAddress = params.address as string;
-      // Decode the address parameter in case it was URL-encoded
-      const decodedAddress = decodeURIComponent(rawAddress);
-      writeLog(`[Resource:property] Received address: "${rawAddress}", Decoded: "${decodedAddress}"`);
-      try {
-        // Normalize the *decoded* address
-        const normalized = await normalizeAddressStringForAttom(decodedAddress);
-        if (!normalized) {
-          throw new Error("Failed to normalize address");
-        }
-        
-        // Fetch property data
-        const propertyData = await attomService.executeQuery("propertyDetail", {
-          address1: normalized.address1,
-          address2: normalized.address2
-        });
-        
-        return {
-          contents: [{
-            uri: uri.href,
-            text: JSON.stringify(propertyData, null, 2)
-          }]
+    "quota",
+    "attom://quota",
+    { mimeType: "application/json", description: "Remaining ATTOM API quota per endpoint and API key" },
+    async (uri: URL) => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(attomService.getQuotaStatus(), null, 2)
+      }]
+    })
+  );
+
+  // Authenticated clients with a quota can check what they have left
+  if (client?.quota) {
+    server.resource(
+      "client-quota",
+      "attom://quota/client",
+      { mimeType: "application/json", description: "Remaining quota of the authenticated client across all endpoints" },
+      async (uri: URL) => {
+        const { requestsPerMinute, requestsPerDay } = client.quota!;
+        // Clients without calls yet have no quota bucket
+        const status = attomService.getClientQuotaStatus(client.id)[0] ?? {
+          clientId: client.id, requestsPerMinute, requestsPerDay,
+          remainingThisMinute: requestsPerMinute, remainingToday: requestsPerDay, resetsInSeconds: 0
         };
-      } catch (error: any) {
         return {
-          contents: [{
-            uri: uri.href,
-            text: JSON.stringify({
-              error: error.message ?? "Unknown error",
-              address: decodedAddress // Return the decoded address in case of error
-            }, null, 2)
-          }]
+          contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(status, null, 2) }]
         };
       }
+    );
+  }
+
+  // Account for upstream calls per tenant (ATTOM contract)
+  server.resource(
+    "tenant-usage",
+    "attom://usage",
+    { mimeType: "application/json", description: "Upstream ATTOM calls and failures per tenant and endpoint" },
+    async (uri: URL) => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(attomService.getTenantUsage(), null, 2)
+      }]
+    })
+  );
+
+  // Expose cache usage counters to operators; process-wide, so never shown to registered clients
+  if (!client) {
+    server.resource(
+      "cache-stats",
+      "attom://cache/stats",
+      { mimeType: "application/json", description: "Cache entries, bytes, hits, misses and evictions" },
+      async (uri: URL) => ({
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(attomService.getCacheStats(), null, 2)
+        }]
+      })
+    );
+  }
+
+  // Process-wide metrics for stdio deployments (HTTP deployments scrape /metrics);
+  // never shown to individual registered clients
+  if (!client) {
+    server.resource(
+      "metrics",
+      "attom://metrics",
+      { mimeType: "text/plain", description: "Server metrics in the Prometheus text format: upstream calls, latency, retries, fallbacks, cache hits and Google Places usage" },
+      async (uri: URL) => ({
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/plain",
+          text: attomService.getMetrics()
+        }]
+      })
+    );
+  }
+
+  // Document the response fields of endpoints that declare a responseSchema
+  server.resource(
+    "response-schema",
+    new ResourceTemplate("attom://schemas/{kind}", {
+      list: async () => ({
+        resources: Object.entries(endpoints)
+          .filter(([, config]) => config.responseSchema)
+          .map(([kind, config]) => ({
+            uri: `attom://schemas/${kind}`,
+            name: `${kind} response schema`,
+            mimeType: "application/schema+json",
+            description: config.description
+          }))
+      })
+    }),
+    { mimeType: "application/schema+json", description: "JSON Schema of the attom_query response for an endpoint kind" },
+    async (uri: URL, params: Record<string, any>) => {
+      const kind = params.kind as string;
+      const schema = endpoints[kind]?.responseSchema;
+      if (!schema) {
+        throw new Error(`No response schema declared for endpoint kind: ${kind}`);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/schema+json",
+          text: JSON.stringify(zodToJsonSchema(schema, kind), null, 2)
+        }]
+      };
     }
   );
 
+  // Workflow prompts, phrased for the tools registered above
+  registerPrompts(server, toolProfile, attomService, client);
+
+  // Admin-only tools are opt-in so agents cannot clear caches unless a deployment allows it;
+  // authenticated clients additionally need the admin flag in the client registry
+  if (process.env.ATTOM_ADMIN_TOOLS === 'true' && (!client || client.admin === true)) {
+    server.tool(
+      "attom_admin_purge_address",
+      "Purge the cached and persisted ATTOM ID / GeoID lookups for one address so it is re-resolved on the next query",
+      {
+        address1: z.string().describe("Street address (as used in queries)"),
+        address2: z.string().describe("City, state, ZIP (as used in queries)")
+      },
+      async ({ address1, address2 }) => {
+        const removed = await attomService.purgeAddressCache(address1, address2);
+        writeLog(`[McpServer:Admin] Purged ${removed} cache entries for ${address1}, ${address2}`);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: true, removed }, null, 2) }]
+        };
+      }
+    );
+  }
+
   return server;
 }
 
 /**
- * Start the MCP server with the specified transport
- * @param transportType The transport type to use (stdio or http)
+ * Transports the MCP server can be started with
+ * - stdio: a single session over stdin/stdout
+ * - http: Streamable HTTP
+ * - sse: deprecated HTTP+SSE, for older clients
+ */
+export type McpTransportType = "stdio" | HttpTransportType;
+
+/**
+ * Start the MCP server with the specified transports
+ * @param transportTypes One transport or several to run side by side; http and
+ * sse share a single listener
  */
-export async function startMcpServer(transportType: "stdio" | "http" = "http") {
-  const server = createMcpServer();
-  
-  if (transportType === "stdio") {
+export async function startMcpServer(transportTypes: McpTransportType | McpTransportType[] = "http") {
+  const types = Array.isArray(transportTypes) ? transportTypes : [transportTypes];
+
+  if (types.includes("stdio")) {
+    // stdout carries the protocol: send any stray console output to the log sinks instead
+    protectStdout();
     // Start receiving messages on stdin and sending messages on stdout
     const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("MCP server started with stdio transport");
-  } else {
-    // Start HTTP server
-    const transport = new StreamableHTTPServerTransport({ 
-      // Use undefined to disable session management, or provide a session ID generator
-      sessionIdGenerator: undefined
-    });
-    await server.connect(transport);
-    console.error(`MCP server started with HTTP transport`);
+    await createMcpServer().connect(transport);
+    writeLog("[McpServer] MCP server started with stdio transport");
   }
+
+  const httpTransports = types.filter((type): type is HttpTransportType => type !== "stdio");
+  if (httpTransports.length === 0) {
+    return;
+  }
+
+  // Every HTTP session gets its own server instance
+  const httpServer = await startHttpServer(
+    client => createMcpServer(getToolProfileFromEnv(), client),
+    getHttpServerOptionsFromEnv([...new Set(httpTransports)])
+  );
+  writeLog(`[McpServer] MCP server started with ${httpTransports.join(" and ")} transport on ${httpServer.url}`);
+
+  // Drain sessions and stop listening on SIGTERM / SIGINT, forcing exit if that hangs
+  const shutdown = (signal: string) => {
+    writeLog(`[McpServer] ${signal} received, shutting down`);
+    const timeoutMs = parseInt(process.env.MCP_SHUTDOWN_TIMEOUT_MS ?? '10000');
+    setTimeout(() => process.exit(1), timeoutMs).unref();
+    httpServer.close().then(() => process.exit(0), () => process.exit(1));
+  };
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
 }
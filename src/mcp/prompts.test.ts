@@ -0,0 +1,84 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from './mcpServer.js';
+import { ToolProfile } from './toolProfile.js';
+import { ClientIdentity } from '../utils/clientContext.js';
+import { JsonLinesCacheStore, setPersistentStore } from '../utils/persistentCache.js';
+import { persistData } from '../utils/caching.js';
+
+async function connect(profile: ToolProfile, identity?: ClientIdentity): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await Promise.all([createMcpServer(profile, identity).connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+const promptText = (result: Awaited<ReturnType<Client['getPrompt']>>) => result.messages[0].content.text as string;
+
+describe('workflow prompts', () => {
+  it('lists the prompts with their arguments', async () => {
+    const client = await connect({ mode: 'gateway', keepLegacyTools: false, deny: [] });
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['value_property', 'neighborhood_summary', 'ownership_history']);
+    expect(prompts[0].arguments?.map(arg => [arg.name, arg.required])).toEqual([
+      ['address', true], ['radius', false], ['comp_count', false],
+    ]);
+    await client.close();
+  });
+
+  it('fills in the arguments for the attom_query gateway', async () => {
+    const client = await connect({ mode: 'gateway', keepLegacyTools: false, deny: [] });
+
+    const text = promptText(await client.getPrompt({
+      name: 'value_property',
+      arguments: { address: '1 Main St, Denver, CO 80202', radius: '2', comp_count: '5' },
+    }));
+
+    expect(text).toContain('1. Call `attom_query` with {"kind":"avmDetail","params":{"address1":"1 Main St","address2":"Denver, CO 80202"}}');
+    expect(text).toContain('"kind":"salesComparablesPropId","params":{"address1":"1 Main St","address2":"Denver, CO 80202","miles":2,"maxComps":5}');
+    await client.close();
+  });
+
+  it('names per-endpoint tools and skips endpoints the profile hides', async () => {
+    const client = await connect({ mode: 'endpoint', keepLegacyTools: false, deny: ['saleDetail'] });
+
+    const text = promptText(await client.getPrompt({ name: 'value_property', arguments: { address: '1 Main St, Denver, CO 80202' } }));
+
+    expect(text).toContain('1. Call `attom_avm_detail` with {"address1":"1 Main St","address2":"Denver, CO 80202"}');
+    expect(text).toContain('3. Call `attom_property_assessment_detail`');
+    expect(text).not.toContain('attom_sale_detail');
+    await client.close();
+  });
+
+  describe('address completion', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attom-prompts-'));
+    const gateway: ToolProfile = { mode: 'gateway', keepLegacyTools: false, deny: [] };
+    const completeAddress = (client: Client) => client.complete({
+      ref: { type: 'ref/prompt', name: 'value_property' },
+      argument: { name: 'address', value: '1 Main' },
+    });
+
+    afterAll(() => {
+      setPersistentStore(null);
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('suggests resolved addresses only without a client registry', async () => {
+      setPersistentStore(new JsonLinesCacheStore(path.join(dir, 'ids.jsonl')));
+      await persistData('attomid:1 Main St:Denver, CO 80202:google', '101');
+      const anonymous = await connect(gateway);
+      const registered = await connect(gateway, { id: 'acme' });
+
+      expect((await completeAddress(anonymous)).completion.values).toEqual(['1 Main St, Denver, CO 80202']);
+      expect((await completeAddress(registered)).completion.values).toEqual([]);
+      await anonymous.close();
+      await registered.close();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * ATTOM MCP Prompts
+ *
+ * Server-side prompt templates for common real-estate workflows. Each prompt
+ * tells the model which ATTOM endpoints to call, in which order and with which
+ * parameters, phrased for the tools the deployment's tool profile exposes.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import { AttomService } from "../services/attomService.js";
+import { ClientIdentity } from "../utils/clientContext.js";
+import { getToolForEndpoint, ToolProfile } from "./toolProfile.js";
+
+/**
+ * One endpoint call in a workflow
+ */
+interface WorkflowStep {
+  kind: string;                  // Endpoint key
+  params: Record<string, unknown>;
+  purpose: string;
+}
+
+/**
+ * Split a one-line address into ATTOM's address1 (street) and address2 (city, state ZIP)
+ */
+function splitAddress(address: string): { address1: string; address2: string } {
+  const [street, ...rest] = address.split(',');
+  const address1 = street.trim();
+  const address2 = rest.join(',').trim();
+  if (!address1 || !address2) {
+    throw new Error(`Address must look like "street, city, state ZIP", got: "${address}"`);
+  }
+  return { address1, address2 };
+}
+
+/**
+ * Parse an optional numeric prompt argument (MCP prompt arguments are always strings)
+ */
+function numberArg(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`'${name}' must be a positive number, got: "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Render workflow steps as tool-call instructions for the exposed tools; steps
+ * whose endpoint the profile does not expose are left out
+ */
+function renderSteps(profile: ToolProfile, steps: WorkflowStep[]): string {
+  return steps
+    .map(step => ({ step, tool: getToolForEndpoint(profile, step.kind) }))
+    .filter(({ tool }) => tool !== undefined)
+    .map(({ step, tool }, index) => {
+      const args = tool!.kind ? { kind: tool!.kind, params: step.params } : step.params;
+      return `${index + 1}. Call \`${tool!.name}\` with ${JSON.stringify(args)} (${step.purpose})`;
+    })
+    .join('\n');
+}
+
+function userMessage(text: string) {
+  return {
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }]
+  };
+}
+
+/**
+ * Register the workflow prompts
+ * @param server MCP server
+ * @param profile Tool profile the instructions should target
+ * @param attomService ATTOM service used for argument completion
+ * @param client Authenticated client of the session (undefined without a client registry)
+ */
+export function registerPrompts(server: McpServer, profile: ToolProfile, attomService: AttomService, client?: ClientIdentity) {
+  // Suggest addresses whose ATTOM IDs are already resolved; the lookup cache is
+  // shared by every client, so registered clients get no suggestions
+  const address = () => completable(
+    z.string().describe('One-line address, e.g. "4529 Winona Ct, Denver, CO 80212"'),
+    async (value: string) => (client ? [] : await attomService.listKnownProperties())
+      .map(property => `${property.address1}, ${property.address2}`)
+      .filter(known => known.toLowerCase().startsWith(value.toLowerCase()))
+  );
+
+  server.prompt(
+    "value_property",
+    "Estimate a property's market value from ATTOM's AVM, comparable sales, last sale and assessment",
+    {
+      address: address(),
+      radius: z.string().optional().describe("Comparable search radius in miles (default 1)"),
+      comp_count: z.string().optional().describe("Maximum number of comparable sales (default 10)")
+    },
+    ({ address, radius, comp_count }) => {
+      const location = splitAddress(address);
+      const steps = renderSteps(profile, [
+        { kind: "avmDetail", params: location, purpose: "automated valuation with value range and confidence score" },
+        {
+          kind: "salesComparablesPropId",
+          params: { ...location, miles: numberArg(radius, 1, 'radius'), maxComps: numberArg(comp_count, 10, 'comp_count') },
+          purpose: "recent comparable sales nearby"
+        },
+        { kind: "saleDetail", params: location, purpose: "the property's own most recent sale" },
+        { kind: "propertyAssessmentDetail", params: location, purpose: "assessed and market value on the tax roll" }
+      ]);
+      return userMessage(
+        `Value the property at ${address}.\n\n${steps}\n\n` +
+        `Then reconcile the AVM with the comparable sales: adjust for differences in size, beds, baths and sale date, ` +
+        `and give a value estimate with a low-high range. State the AVM confidence score, how many comps you used, ` +
+        `and mention any validationIssues or missing data in the responses.`
+      );
+    }
+  );
+
+  server.prompt(
+    "neighborhood_summary",
+    "Summarize the neighborhood, schools and local sales trend around an address",
+    {
+      address: address(),
+      radius: z.string().optional().describe("School search radius in miles (default 5)")
+    },
+    ({ address, radius }) => {
+      const location = splitAddress(address);
+      const currentYear = new Date().getFullYear();
+      const steps = renderSteps(profile, [
+        { kind: "communityProfile", params: location, purpose: "demographics, crime, climate and commute data" },
+        { kind: "schoolSearch", params: { ...location, radius: numberArg(radius, 5, 'radius') }, purpose: "schools nearby" },
+        {
+          kind: "transactionSalesTrend",
+          params: { ...location, interval: "yearly", startyear: currentYear - 5, endyear: currentYear },
+          purpose: "sale price and volume trend of the area over five years"
+        }
+      ]);
+      return userMessage(
+        `Summarize the neighborhood around ${address}.\n\n${steps}\n\n` +
+        `Then write a short summary for a prospective buyer: who lives there, safety, the closest and best-rated schools ` +
+        `(with grade levels and distances), and whether prices are rising or falling.`
+      );
+    }
+  );
+
+  server.prompt(
+    "ownership_history",
+    "Report a property's current owner, mortgages and sales history",
+    { address: address() },
+    ({ address }) => {
+      const location = splitAddress(address);
+      const steps = renderSteps(profile, [
+        { kind: "propertyDetailOwner", params: location, purpose: "current owner and property characteristics" },
+        { kind: "propertyDetailMortgageOwner", params: location, purpose: "open mortgages and lenders" },
+        { kind: "salesHistoryDetail", params: location, purpose: "every recorded sale" }
+      ]);
+      return userMessage(
+        `Report the ownership history of ${address}.\n\n${steps}\n\n` +
+        `Then list the owners in chronological order with purchase dates and prices, the current mortgage position, ` +
+        `and whether the owner appears to occupy the property.`
+      );
+    }
+  );
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../utils/fetcher.js', () => ({
+  fetchAttom: vi.fn(),
+}));
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { fetchAttom } from '../utils/fetcher.js';
+import { createMcpServer } from './mcpServer.js';
+import { JsonLinesCacheStore, setPersistentStore } from '../utils/persistentCache.js';
+import { persistData } from '../utils/caching.js';
+
+const fetchMock = vi.mocked(fetchAttom);
+
+describe('property resource templates', () => {
+  let dir: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attom-resources-'));
+    setPersistentStore(new JsonLinesCacheStore(path.join(dir, 'ids.jsonl')));
+    await persistData('attomid:1 Main St:Denver, CO 80202:google', '101');
+    await persistData('geoIdV4Map:1 Main St:Denver, CO 80202', { N2: 'n2abc', SB: 'sb111,sb222' });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await Promise.all([createMcpServer().connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    setPersistentStore(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists known properties under each property template', async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toEqual(expect.arrayContaining([
+      'attom://property/101',
+      'attom://property/101/sales',
+      'attom://property/101/avm',
+    ]));
+    expect(resources.find(resource => resource.uri === 'attom://property/101')?.name).toBe('1 Main St, Denver, CO 80202');
+  });
+
+  it('does not list or complete other clients\' lookups for a registered client', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const registered = new Client({ name: 'test', version: '1.0.0' });
+    await Promise.all([createMcpServer(undefined, { id: 'acme' }).connect(serverTransport), registered.connect(clientTransport)]);
+
+    const { resources } = await registered.listResources();
+    const completion = await registered.complete({
+      ref: { type: 'ref/resource', uri: 'attom://property/{attomId}' },
+      argument: { name: 'attomId', value: '1' },
+    });
+
+    expect(resources.filter(resource => resource.uri.startsWith('attom://property/'))).toEqual([]);
+    expect(completion.completion.values).toEqual([]);
+    await registered.close();
+  });
+
+  it('completes school GeoIDs from resolved lookups', async () => {
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'attom://school/{geoIdV4}' },
+      argument: { name: 'geoIdV4', value: 'sb' },
+    });
+
+    expect(result.completion.values).toEqual(['sb111', 'sb222']);
+  });
+
+  it('reads the AVM of a property by ATTOM ID', async () => {
+    fetchMock.mockResolvedValue({
+      status: { code: 0 },
+      property: [{ identifier: { attomId: 101 }, avm: { amount: { value: 500000 } } }],
+    });
+
+    const { contents } = await client.readResource({ uri: 'attom://property/101/avm' });
+
+    expect(contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(contents[0].text as string).property[0].avm.amount.value).toBe(500000);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * ATTOM MCP Resources
+ *
+ * Resource templates that let MCP clients attach property, area and school
+ * context by URI instead of calling a tool. Listing and completion draw on the
+ * ATTOM IDs and GeoIDs already resolved into the persistent lookup cache;
+ * registered clients are not shown the addresses other clients looked up.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AttomService } from "../services/attomService.js";
+import { KnownProperty } from "../utils/caching.js";
+import { ClientIdentity } from "../utils/clientContext.js";
+import { ambiguousAddressError, resolveAddress } from "../utils/addressNormalizer.js";
+import { writeLog } from "../utils/logger.js";
+import { AddressUnresolvableError, toErrorPayload } from "../utils/errors.js";
+
+const JSON_MIME_TYPE = "application/json";
+
+// Upper bound on the suggestions returned by a completion callback
+const MAX_COMPLETIONS = 50;
+
+/**
+ * Read a resource as JSON; failures are returned as an error document rather than thrown
+ * @param uri Resource URI
+ * @param load Loads the resource data
+ * @param context Extra fields to include in an error document
+ */
+async function readJson(uri: URL, load: () => Promise<unknown>, context: Record<string, unknown> = {}) {
+  let data: unknown;
+  try {
+    data = await load();
+  } catch (error: any) {
+    writeLog(`[Resource] Failed to read ${uri.href}: ${error?.message ?? String(error)}`, 'error');
+    data = { error: toErrorPayload(error), ...context };
+  }
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: JSON_MIME_TYPE,
+      text: JSON.stringify(data, null, 2)
+    }]
+  };
+}
+
+/**
+ * Build a completion callback suggesting known values that start with the typed prefix
+ */
+function completeFrom(values: () => Promise<string[]>) {
+  return async (prefix: string) =>
+    (await values()).filter(value => value.startsWith(prefix)).slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Register the property, area and school resources
+ * @param server MCP server
+ * @param attomService ATTOM service used to load the data
+ * @param client Authenticated client of the session (undefined without a client registry)
+ */
+export function registerPropertyResources(server: McpServer, attomService: AttomService, client?: ClientIdentity) {
+  // The lookup cache is shared by every client, so registered clients get no listing
+  const knownProperties = async (): Promise<KnownProperty[]> => client ? [] : attomService.listKnownProperties();
+  const knownAttomIds = async () => (await knownProperties()).map(p => p.attomId);
+
+  // Resources for one property, listed for every property whose ATTOM ID is known
+  const propertyViews = [
+    {
+      name: "property-by-id",
+      suffix: "",
+      endpointKey: "propertyDetailOwner",
+      description: "Property detail with owner information for an ATTOM ID"
+    },
+    {
+      name: "property-sales",
+      suffix: "/sales",
+      endpointKey: "saleDetail",
+      description: "Most recent sale of the property with this ATTOM ID"
+    },
+    {
+      name: "property-avm",
+      suffix: "/avm",
+      endpointKey: "avmSnapshot",
+      description: "Automated valuation (AVM) of the property with this ATTOM ID"
+    }
+  ];
+
+  for (const view of propertyViews) {
+    server.resource(
+      view.name,
+      new ResourceTemplate(`attom://property/{attomId}${view.suffix}`, {
+        list: async () => ({
+          resources: (await knownProperties()).map(property => ({
+            uri: `attom://property/${property.attomId}${view.suffix}`,
+            name: `${property.address1}, ${property.address2}`,
+            mimeType: JSON_MIME_TYPE
+          }))
+        }),
+        complete: { attomId: completeFrom(knownAttomIds) }
+      }),
+      { mimeType: JSON_MIME_TYPE, description: view.description },
+      async (uri: URL, params: Record<string, any>) =>
+        readJson(uri, () => attomService.executeQuery(view.endpointKey, { attomid: params.attomId }), { attomId: params.attomId })
+    );
+  }
+
+  server.resource(
+    "area-community",
+    new ResourceTemplate("attom://area/{geoIdV4}/community", {
+      list: undefined,
+      complete: { geoIdV4: completeFrom(() => attomService.listKnownGeoIds("N2")) }
+    }),
+    { mimeType: JSON_MIME_TYPE, description: "Community profile (demographics, crime, climate) of a neighborhood GeoID V4" },
+    async (uri: URL, params: Record<string, any>) =>
+      readJson(uri, () => attomService.executeQuery("communityProfile", { geoIdV4: params.geoIdV4 }), { geoIdV4: params.geoIdV4 })
+  );
+
+  server.resource(
+    "school",
+    new ResourceTemplate("attom://school/{geoIdV4}", {
+      list: undefined,
+      complete: { geoIdV4: completeFrom(() => attomService.listKnownGeoIds("SB")) }
+    }),
+    { mimeType: JSON_MIME_TYPE, description: "School profile for a school GeoID V4 (SB subtype)" },
+    async (uri: URL, params: Record<string, any>) =>
+      readJson(uri, () => attomService.executeQuery("schoolProfile", { geoIdV4: params.geoIdV4 }), { geoIdV4: params.geoIdV4 })
+  );
+
+  // Property by free-form address, normalized before the lookup
+  server.resource(
+    "property",
+    new ResourceTemplate("property://{address}", { list: undefined }),
+    { mimeType: JSON_MIME_TYPE, description: "Expanded property profile for a URL-encoded one-line address" },
+    async (uri: URL, params: Record<string, any>) => {
+      // Decode the address parameter in case it was URL-encoded
+      const address = decodeURIComponent(params.address as string);
+      writeLog(`[Resource:property] Received address: "${params.address}", Decoded: "${address}"`);
+      return readJson(uri, async () => {
+        const resolution = await resolveAddress(address);
+        if (resolution.status === "ambiguous") {
+          throw ambiguousAddressError(address, resolution.candidates);
+        }
+        if (resolution.status === "unresolved") {
+          throw new AddressUnresolvableError("Failed to normalize address", { address });
+        }
+        return attomService.executeQuery("propertyExpandedProfile", {
+          address1: resolution.address.address1,
+          address2: resolution.address.address2
+        });
+      }, { address });
+    }
+  );
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildToolsForProfile, getExposedEndpointKeys, ToolProfile } from './toolProfile.js';
+
+const profile = (overrides: Partial<ToolProfile>): ToolProfile => ({
+  mode: 'gateway',
+  keepLegacyTools: false,
+  deny: [],
+  ...overrides,
+});
+
+describe('tool exposure profiles', () => {
+  it('applies the allow list first and lets the deny list win', () => {
+    const keys = getExposedEndpointKeys(profile({ allow: ['avmSnapshot', 'saleDetail', 'schoolProfile'], deny: ['saleDetail'] }));
+
+    expect(keys).toEqual(['avmSnapshot', 'schoolProfile']);
+  });
+
+  it('registers one gateway per category covering only the exposed endpoints', () => {
+    const tools = buildToolsForProfile(profile({ mode: 'category', allow: ['avmSnapshot', 'avmDetail', 'schoolProfile'] }));
+
+    expect(tools.map(tool => tool.name)).toEqual(['attom_school_query', 'attom_avm_query']);
+  });
+
+  it('appends the per-endpoint tools when keeping legacy tools', () => {
+    const tools = buildToolsForProfile(profile({ keepLegacyTools: true, allow: ['avmSnapshot'] }));
+
+    expect(tools.map(tool => tool.name)).toEqual(['attom_query', 'attom_avm_snapshot']);
+  });
+
+  it('rejects kinds outside the profile in the gateway tool', async () => {
+    const [gateway] = buildToolsForProfile(profile({ deny: ['saleDetail'] }));
+
+    await expect(gateway.handler({ kind: 'saleDetail', params: {} })).rejects.toThrow("Invalid or missing 'kind'");
+  });
+});
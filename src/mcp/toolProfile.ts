@@ -0,0 +1,146 @@
+/**
+ * MCP Tool Exposure Profiles
+ *
+ * Decides which ATTOM tools a deployment registers: the single `attom_query`
+ * gateway, one gateway per endpoint category, or one tool per endpoint,
+ * restricted to the endpoint keys its allow/deny lists permit.
+ */
+
+import dotenv from 'dotenv';
+import { endpoints } from '../config/endpointConfig.js';
+import { buildGroupedTools } from './groupedTools.js';
+import { buildEndpointTools, endpointToolName } from './endpointTools.js';
+import { writeLog } from '../utils/logger.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * How endpoints are exposed as tools:
+ * - 'gateway'  one `attom_query` tool selecting the endpoint by `kind`
+ * - 'category' one `attom_<category>_query` tool per EndpointCategory
+ * - 'endpoint' one tool per endpoint, e.g. `attom_avm_snapshot`
+ */
+export type ToolMode = 'gateway' | 'category' | 'endpoint';
+
+/**
+ * Tool exposure settings of a deployment
+ */
+export interface ToolProfile {
+  mode: ToolMode;
+  keepLegacyTools: boolean; // Also register the per-endpoint tools next to the gateway tools
+  allow?: string[];         // Endpoint keys to expose; all endpoints when unset
+  deny: string[];           // Endpoint keys never to expose (wins over allow)
+}
+
+/**
+ * What createMcpServer passes a tool handler about the call besides its input
+ */
+export interface ToolCallContext {
+  signal?: AbortSignal;  // Aborted when the client cancels the call
+  /** Send notifications/progress; only set when the client asked for progress with a progressToken */
+  reportProgress?: (progress: number, total?: number) => Promise<void>;
+}
+
+/**
+ * Tool definition as registered by createMcpServer
+ */
+export interface McpToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: string;
+    properties: Record<string, { type?: string; description?: string; enum?: readonly string[] }>;
+    required?: readonly string[];
+  };
+  handler: (input: Record<string, any>, context?: ToolCallContext) => Promise<any>;
+  compactOutput?: boolean;  // Serialize the result without indentation (large results)
+}
+
+const TOOL_MODES: ToolMode[] = ['gateway', 'category', 'endpoint'];
+
+function parseKeyList(value: string | undefined): string[] | undefined {
+  const keys = value?.split(',').map(key => key.trim()).filter(Boolean);
+  return keys?.length ? keys : undefined;
+}
+
+/**
+ * Read the tool profile from ATTOM_TOOL_MODE, KEEP_LEGACY_TOOLS, ATTOM_TOOL_ALLOW and ATTOM_TOOL_DENY
+ */
+export function getToolProfileFromEnv(): ToolProfile {
+  const mode = (process.env.ATTOM_TOOL_MODE ?? 'gateway') as ToolMode;
+  if (!TOOL_MODES.includes(mode)) {
+    writeLog(`[ToolProfile] Unknown ATTOM_TOOL_MODE '${mode}', falling back to gateway`, 'warn');
+  }
+  return {
+    mode: TOOL_MODES.includes(mode) ? mode : 'gateway',
+    keepLegacyTools: process.env.KEEP_LEGACY_TOOLS === 'true',
+    allow: parseKeyList(process.env.ATTOM_TOOL_ALLOW),
+    deny: parseKeyList(process.env.ATTOM_TOOL_DENY) ?? [],
+  };
+}
+
+/**
+ * Narrow a profile to the endpoints a client may query
+ * @param profile Deployment tool profile
+ * @param allowedEndpoints The client's allowed endpoint keys; the profile is returned as is when unset
+ */
+export function restrictToolProfile(profile: ToolProfile, allowedEndpoints?: string[]): ToolProfile {
+  if (!allowedEndpoints) {
+    return profile;
+  }
+  return { ...profile, allow: (profile.allow ?? allowedEndpoints).filter(key => allowedEndpoints.includes(key)) };
+}
+
+/**
+ * Get the endpoint keys a profile exposes, in endpoint config order
+ * @param profile Tool profile
+ */
+export function getExposedEndpointKeys(profile: ToolProfile): string[] {
+  for (const key of [...(profile.allow ?? []), ...profile.deny]) {
+    if (!endpoints[key]) {
+      writeLog(`[ToolProfile] Ignoring unknown endpoint key '${key}' in tool allow/deny list`, 'warn');
+    }
+  }
+  return Object.keys(endpoints).filter(key =>
+    (!profile.allow || profile.allow.includes(key)) && !profile.deny.includes(key)
+  );
+}
+
+/**
+ * Build the ATTOM tools a profile exposes
+ * @param profile Tool profile
+ * @returns Tool definitions to register
+ */
+export function buildToolsForProfile(profile: ToolProfile): McpToolDefinition[] {
+  const keys = getExposedEndpointKeys(profile);
+  if (keys.length === 0) {
+    writeLog('[ToolProfile] The tool allow/deny lists leave no endpoint exposed; no ATTOM tools will be registered', 'warn');
+  }
+
+  if (profile.mode === 'endpoint') {
+    return buildEndpointTools(keys);
+  }
+  const tools: McpToolDefinition[] = buildGroupedTools(keys, profile.mode === 'category');
+  return profile.keepLegacyTools ? [...tools, ...buildEndpointTools(keys)] : tools;
+}
+
+/**
+ * Find the tool through which a profile exposes an endpoint
+ * @param profile Tool profile
+ * @param endpointKey Endpoint key
+ * @returns Tool name, and the `kind` to pass for gateway tools; undefined if the endpoint is not exposed
+ */
+export function getToolForEndpoint(profile: ToolProfile, endpointKey: string): { name: string; kind?: string } | undefined {
+  if (!getExposedEndpointKeys(profile).includes(endpointKey)) {
+    return undefined;
+  }
+  switch (profile.mode) {
+    case 'endpoint':
+      return { name: endpointToolName(endpointKey) };
+    case 'category':
+      return { name: `attom_${endpoints[endpointKey].category}_query`, kind: endpointKey };
+    default:
+      return { name: 'attom_query', kind: endpointKey };
+  }
+}
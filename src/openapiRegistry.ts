@@ -2,6 +2,15 @@
 
 import { z } from 'zod';
 import { OpenAPIRegistry, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import {
+  propertyResponseSchema,
+  avmResponseSchema,
+  saleResponseSchema,
+  assessmentResponseSchema,
+  schoolSearchResponseSchema,
+  schoolProfileResponseSchema,
+  schoolDistrictResponseSchema
+} from './config/responseSchemas.js';
 
 extendZodWithOpenApi(z);
 
@@ -49,7 +58,7 @@ openApiRegistry.registerPath({
       description: 'Property basic profile data',
       content: {
         'application/json': {
-          schema: z.any().describe('BasicProfileResponse'),
+          schema: propertyResponseSchema.describe('BasicProfileResponse'),
         },
       },
     },
@@ -247,7 +256,7 @@ openApiRegistry.registerPath({
       description: 'School profile data',
       content: {
         'application/json': {
-          schema: z.any().describe('SchoolProfileResponse'),
+          schema: schoolProfileResponseSchema.describe('SchoolProfileResponse'),
         },
       },
     },
@@ -313,7 +322,7 @@ openApiRegistry.registerPath({
       description: 'School search data',
       content: {
         'application/json': {
-          schema: z.any().describe('SchoolSearchResponse'),
+          schema: schoolSearchResponseSchema.describe('SchoolSearchResponse'),
         },
       },
     },
@@ -442,7 +451,7 @@ openApiRegistry.registerPath({
       description: 'Property detail owner data',
       content: {
         'application/json': {
-          schema: z.any().describe('DetailOwnerResponse'),
+          schema: propertyResponseSchema.describe('DetailOwnerResponse'),
         },
       },
     },
@@ -499,7 +508,7 @@ openApiRegistry.registerPath({
       description: 'AVM detail data',
       content: {
         'application/json': {
-          schema: z.any().describe('AttomAvmResponse'),
+          schema: avmResponseSchema.describe('AttomAvmResponse'),
         },
       },
     },
@@ -556,7 +565,7 @@ openApiRegistry.registerPath({
       description: 'Assessment detail data',
       content: {
         'application/json': {
-          schema: z.any().describe('AssessmentDetailResponse'),
+          schema: assessmentResponseSchema.describe('AssessmentDetailResponse'),
         },
       },
     },
@@ -645,7 +654,7 @@ openApiRegistry.registerPath({
       description: 'Last sale data',
       content: {
         'application/json': {
-          schema: z.any().describe('SaleDetailResponse'),
+          schema: saleResponseSchema.describe('SaleDetailResponse'),
         },
       },
     },
@@ -670,7 +679,7 @@ openApiRegistry.registerPath({
       description: 'Sale info data',
       content: {
         'application/json': {
-          schema: z.any().describe('SaleSnapshotResponse'),
+          schema: saleResponseSchema.describe('SaleSnapshotResponse'),
         },
       },
     },
@@ -695,7 +704,7 @@ openApiRegistry.registerPath({
       description: 'All event detail data',
       content: {
         'application/json': {
-          schema: z.any().describe('AlleventsDetailResponse'),
+          schema: propertyResponseSchema.describe('AlleventsDetailResponse'),
         },
       },
     },
@@ -828,7 +837,7 @@ openApiRegistry.registerPath({
       description: 'School profile data',
       content: {
         'application/json': {
-          schema: z.any().describe('SchoolProfileResponse'),
+          schema: schoolProfileResponseSchema.describe('SchoolProfileResponse'),
         },
       },
     },
@@ -853,7 +862,7 @@ openApiRegistry.registerPath({
       description: 'School district data',
       content: {
         'application/json': {
-          schema: z.any().describe('SchoolDistrictResponse'),
+          schema: schoolDistrictResponseSchema.describe('SchoolDistrictResponse'),
         },
       },
     },
@@ -881,7 +890,7 @@ openApiRegistry.registerPath({
       description: 'School search data',
       content: {
         'application/json': {
-          schema: z.any().describe('SchoolSearchResponse'),
+          schema: schoolSearchResponseSchema.describe('SchoolSearchResponse'),
         },
       },
     },
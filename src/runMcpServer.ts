@@ -1,27 +1,54 @@
 import dotenv from 'dotenv';
+import { createLogger } from './utils/logger.js';
 // Load environment variables *immediately*
-console.error('[runMcpServer] Loading environment variables...');
 dotenv.config();
-console.error(`[runMcpServer] Environment loaded. ATTOM_API_KEY set: ${!!process.env.ATTOM_API_KEY}`);
+const logger = createLogger('runMcpServer');
+logger.info(`Environment loaded. ATTOM_API_KEY set: ${!!process.env.ATTOM_API_KEY}`);
 
 /**
  * Run MCP Server
  *
  * This script starts the Model Context Protocol server for the ATTOM API.
- * It can be run in either stdio or HTTP mode.
+ * It serves Streamable HTTP by default; pass --stdio for stdio, or
+ * --transport with a comma-separated list (stdio, http, sse) to run several
+ * transports at once, e.g. --transport http,sse.
  */
-console.error('[runMcpServer] Script started.');
 
-import { startMcpServer } from './mcp/mcpServer.js';
+import { McpTransportType, startMcpServer } from './mcp/mcpServer.js';
 
-// Get transport type from command line arguments
-const args = process.argv.slice(2);
-const transportType = args.includes('--stdio') ? 'stdio' : 'http';
-console.error(`[runMcpServer] Determined transport type: ${transportType}`);
+const TRANSPORT_TYPES: McpTransportType[] = ['stdio', 'http', 'sse'];
+
+/**
+ * Get the transport types from command line arguments
+ * (--transport a,b / --transport=a,b, repeatable; --stdio is shorthand for --transport stdio)
+ */
+function parseTransportTypes(args: string[]): McpTransportType[] {
+  const requested: string[] = [];
+  args.forEach((arg, index) => {
+    if (arg === '--stdio') {
+      requested.push('stdio');
+    } else if (arg === '--transport') {
+      requested.push(...(args[index + 1] ?? '').split(','));
+    } else if (arg.startsWith('--transport=')) {
+      requested.push(...arg.slice('--transport='.length).split(','));
+    }
+  });
+
+  const types = [...new Set(requested.map(type => type.trim()).filter(Boolean))];
+  const unknown = types.filter(type => !TRANSPORT_TYPES.includes(type as McpTransportType));
+  if (unknown.length > 0) {
+    logger.error(`Unknown transport type(s): ${unknown.join(', ')} (expected ${TRANSPORT_TYPES.join(', ')})`);
+    process.exit(1);
+  }
+  return types.length > 0 ? types as McpTransportType[] : ['http'];
+}
+
+const transportTypes = parseTransportTypes(process.argv.slice(2));
+logger.info(`Determined transport types: ${transportTypes.join(', ')}`);
 
 // Start the MCP server
-console.error('[runMcpServer] Attempting to start MCP server...');
-startMcpServer(transportType).catch((error: Error) => {
-  console.error('[runMcpServer] Failed to start MCP server:', error);
+logger.info('Attempting to start MCP server...');
+startMcpServer(transportTypes).catch((error: Error) => {
+  logger.error('Failed to start MCP server', { error });
   process.exit(1);
 });
@@ -5,9 +5,26 @@
  * leveraging the endpoint configuration and query manager.
  */
 
-import { executeAttomQuery } from './queryManager.js'; // Corrected import name
+import { executeAttomQuery, QueryOptions } from './queryManager.js'; // Corrected import name
+import { BatchQueryOptions, BatchQueryResult, BatchRow, executeBatchQuery } from './batchQuery.js';
 import { EndpointCategory, getEndpointsByCategory, AllEventsDataField, endpoints } from '../config/endpointConfig.js';
 import { fetchAttom } from '../utils/fetcher.js';
+import { writeLog } from '../utils/logger.js';
+import { ClientQuotaStatus, getApiKeyId, getClientQuotaStatus, getRateLimitStatus, RateLimitStatus } from '../utils/rateLimiter.js';
+import { getCacheStats, purgeCachedAddress, listKnownProperties, listKnownGeoIds, KnownProperty } from '../utils/caching.js';
+import { ValidatedResponse } from '../utils/responseValidation.js';
+import { assertEndpointAllowed, getCurrentClient } from '../utils/clientContext.js';
+import { getAllowedTenantIds, getTenant, getTenantUsage, TenantUsage } from '../utils/tenants.js';
+import { renderMetrics } from '../utils/metrics.js';
+import {
+  PropertyResponse,
+  AvmResponse,
+  SaleResponse,
+  AssessmentResponse,
+  SchoolSearchResponse,
+  SchoolProfileResponse,
+  SchoolDistrictResponse
+} from '../config/responseSchemas.js';
 
 /**
  * ATTOM API Service class
@@ -17,12 +34,30 @@ export class AttomService {
    * Execute a property-related query
    * @param queryType Query type (endpoint key)
    * @param params Query parameters
+   * @param options Per-call options (e.g. response cache mode)
    * @returns API response
    */
-  public async executeQuery(queryType: string, params: Record<string, any>): Promise<any> {
+  public async executeQuery(queryType: string, params: Record<string, any>, options?: QueryOptions): Promise<any> {
+    // Authenticated clients may only query their allowed endpoints
+    assertEndpointAllowed(queryType);
+
     // Validation is now handled within executeAttomQuery after fallbacks
 
-    return executeAttomQuery(queryType, params); // Use corrected function name
+    return executeAttomQuery(queryType, params, options); // Use corrected function name
+  }
+
+  /**
+   * Execute several queries for each of many addresses or ATTOM IDs
+   * @param queryTypes Query types (endpoint keys) to run for every row
+   * @param rows One-line addresses or parameter objects ({ attomid } or { address1, address2 })
+   * @param options Concurrency, shared params, progress callback and per-call options
+   * @returns A result or error per row and query type
+   */
+  public async executeBatch(queryTypes: string[], rows: BatchRow[], options?: BatchQueryOptions): Promise<BatchQueryResult> {
+    // Authenticated clients may only query their allowed endpoints
+    queryTypes.forEach(assertEndpointAllowed);
+
+    return executeBatchQuery(queryTypes, rows, options);
   }
   
   /**
@@ -32,7 +67,7 @@ export class AttomService {
    */
   public async getAllEventsDetail(params: {
     id: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<PropertyResponse>> {
     return this.executeQuery('allEventsDetail', params);
   }
   
@@ -49,7 +84,7 @@ export class AttomService {
   public async getPropertyBasicProfile(params: {
     address1: string;
     address2: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<PropertyResponse>> {
     return this.executeQuery('propertyBasicProfile', params);
   }
   
@@ -60,7 +95,7 @@ export class AttomService {
    */
   public async getPropertyDetailOwner(params: {
     attomid: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<PropertyResponse>> {
     return this.executeQuery('propertyDetailOwner', params);
   }
   
@@ -119,7 +154,7 @@ export class AttomService {
   public async getPropertyAssessmentDetail(params: {
     address1: string;
     address2: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<AssessmentResponse>> {
     return this.executeQuery('propertyAssessmentDetail', params);
   }
   
@@ -152,7 +187,7 @@ export class AttomService {
    */
   public async getAvmSnapshot(params: {
     attomid: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<AvmResponse>> {
     return this.executeQuery('avmSnapshot', params);
   }
   
@@ -186,7 +221,7 @@ export class AttomService {
    */
   public async getSalesHistorySnapshot(params: {
     attomid: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<SaleResponse>> {
     return this.executeQuery('salesHistorySnapshot', params);
   }
   
@@ -234,7 +269,7 @@ export class AttomService {
   public async getSaleDetail(params: {
     address1: string;
     address2: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<SaleResponse>> {
     return this.executeQuery('saleDetail', params);
   }
   
@@ -271,7 +306,7 @@ export class AttomService {
     propId: string;
     [key: string]: any;
   }): Promise<any> {
-    console.error('[AttomService:getSalesComparablesPropId] Received params:', JSON.stringify(params));
+    writeLog(`[AttomService:getSalesComparablesPropId] Received params: ${JSON.stringify(params)}`, 'debug');
 
     const queryParams = this.buildComparablesQueryParams(params);
     const path = `/property/v2/salescomparables/propid/${encodeURIComponent(params.propId)}`;
@@ -312,7 +347,7 @@ export class AttomService {
    */
   public async getSchoolProfile(params: {
     geoIdV4: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<SchoolProfileResponse>> {
     return this.executeQuery('schoolProfile', params);
   }
   
@@ -323,7 +358,7 @@ export class AttomService {
    */
   public async getSchoolDistrict(params: {
     geoIdV4: string;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<SchoolDistrictResponse>> {
     return this.executeQuery('schoolDistrict', params);
   }
   
@@ -371,7 +406,7 @@ export class AttomService {
     radius?: number;
     page?: number;
     pageSize?: number;
-  }): Promise<any> {
+  }): Promise<ValidatedResponse<SchoolSearchResponse>> {
     return this.executeQuery('schoolSearch', params);
   }
   
@@ -400,6 +435,85 @@ export class AttomService {
     return endpoints.map(endpoint => endpoint.path);
   }
   
+  /**
+   * Get the remaining ATTOM quota per endpoint and API key, limited to the
+   * current client's allowed endpoints and the API keys of its tenants
+   * @param endpointKey Optional endpoint key to restrict the report to
+   * @returns Quota status entries for endpoints that have been called
+   */
+  public getQuotaStatus(endpointKey?: string): RateLimitStatus[] {
+    const client = getCurrentClient();
+    if (!client) {
+      return getRateLimitStatus(endpointKey);
+    }
+    const apiKeyIds = getAllowedTenantIds().map(tenantId => getApiKeyId(getTenant(tenantId).apiKey));
+    return getRateLimitStatus(endpointKey).filter(status =>
+      apiKeyIds.includes(status.apiKeyId) &&
+      (!client.allowedEndpoints || client.allowedEndpoints.includes(status.endpointKey))
+    );
+  }
+
+  /**
+   * Get the remaining quota of MCP clients from the client registry
+   * @param clientId Optional client ID to restrict the report to
+   * @returns Quota status entries for clients that have made calls
+   */
+  public getClientQuotaStatus(clientId?: string): ClientQuotaStatus[] {
+    return getClientQuotaStatus(clientId);
+  }
+
+  /**
+   * Get the upstream calls made per tenant and endpoint, limited to the tenants
+   * the current client may use
+   * @returns Usage entries for tenants that have made calls
+   */
+  public getTenantUsage(): TenantUsage[] {
+    return getTenantUsage(getAllowedTenantIds());
+  }
+  
+  /**
+   * Get cache usage counters (entries, bytes, hits, misses, evictions)
+   * @returns Stats per cache store
+   */
+  public getCacheStats(): ReturnType<typeof getCacheStats> {
+    return getCacheStats();
+  }
+
+  /**
+   * Get the server metrics (upstream calls, latency, retries, fallbacks, caches, Google Places)
+   * @returns Metrics in the Prometheus text exposition format
+   */
+  public getMetrics(): string {
+    return renderMetrics();
+  }
+  
+  /**
+   * Purge the cached and persisted ATTOM ID / GeoID lookups for one address
+   * @param address1 Street address
+   * @param address2 City, state, ZIP
+   * @returns Number of cache entries removed
+   */
+  public async purgeAddressCache(address1: string, address2: string): Promise<number> {
+    return purgeCachedAddress(address1, address2);
+  }
+  
+  /**
+   * List the properties whose ATTOM IDs have been resolved and persisted
+   * @returns ATTOM ID and address per known property
+   */
+  public async listKnownProperties(): Promise<KnownProperty[]> {
+    return listKnownProperties();
+  }
+  
+  /**
+   * List the GeoIDs resolved from addresses so far
+   * @param subtype Geography subtype (e.g. 'N2', 'SB'); all subtypes when omitted
+   * @returns Distinct GeoIDs
+   */
+  public async listKnownGeoIds(subtype?: string): Promise<string[]> {
+    return listKnownGeoIds(subtype);
+  }
+  
   /**
    * Check if a specific data field is available in AllEvents response
    * @param allEventsData AllEvents response data
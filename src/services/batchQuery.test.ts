@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../utils/fetcher.js', () => ({
+  fetchAttom: vi.fn(),
+}));
+
+import { fetchAttom } from '../utils/fetcher.js';
+import { executeBatchQuery, getBatchLimits } from './batchQuery.js';
+import { setPersistentStore } from '../utils/persistentCache.js';
+import { NotFoundError, QuotaExceededError } from '../utils/errors.js';
+
+const fetchMock = vi.mocked(fetchAttom);
+
+// Keep ATTOM ID lookups in memory only; nothing should be written to disk by these tests
+setPersistentStore(null);
+
+describe('executeBatchQuery', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.BATCH_MAX_ROWS;
+    delete process.env.BATCH_CONCURRENCY;
+  });
+
+  it('returns a result or error per row and kind, in input order', async () => {
+    fetchMock.mockImplementation(async (path, params) => {
+      if (String(params?.attomid) === '9100002' && String(path).includes('rentalavm')) {
+        throw new NotFoundError('No rental AVM for this property');
+      }
+      return { status: { code: 0 }, property: [{ identifier: { attomId: Number(params?.attomid) } }] };
+    });
+    const progress: number[] = [];
+
+    const batch = await executeBatchQuery(
+      ['propertyDetailOwner', 'propertyRentalAVM'],
+      [{ attomid: '9100001' }, { attomid: '9100002' }, 'not an address'],
+      { onProgress: completed => progress.push(completed) }
+    );
+
+    expect(batch).toMatchObject({ total: 3, succeeded: 1, partial: 1, failed: 1 });
+    expect(batch.rows.map(row => row.status)).toEqual(['ok', 'partial', 'error']);
+    expect(Object.keys(batch.rows[0].results)).toEqual(['propertyDetailOwner', 'propertyRentalAVM']);
+    expect(batch.rows[1].errors.propertyRentalAVM).toMatchObject({ code: 'NOT_FOUND' });
+    expect(batch.rows[2].errors.row).toMatchObject({ code: 'ADDRESS_UNRESOLVABLE' });
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  it('keeps at most the requested number of rows in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    fetchMock.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return { status: { code: 0 }, property: [{}] };
+    });
+    const rows = Array.from({ length: 6 }, (_, i) => ({ attomid: `92000${i}` }));
+
+    const batch = await executeBatchQuery(['propertyDetailOwner'], rows, { concurrency: 2 });
+
+    expect(batch.succeeded).toBe(6);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('skips a kind for the remaining rows once its daily quota is used up', async () => {
+    fetchMock.mockRejectedValue(new QuotaExceededError('Daily quota exhausted', { retryAfterSeconds: 3600 }));
+    const rows = Array.from({ length: 3 }, (_, i) => ({ attomid: `93000${i}` }));
+
+    const batch = await executeBatchQuery(['propertyDetailOwner'], rows, { concurrency: 1 });
+
+    expect(batch.failed).toBe(3);
+    expect(batch.rows[2].errors.propertyDetailOwner).toMatchObject({ code: 'QUOTA_EXCEEDED', retryAfterSeconds: 3600 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the default limits when BATCH_MAX_ROWS and BATCH_CONCURRENCY are malformed', async () => {
+    process.env.BATCH_MAX_ROWS = 'lots';
+    process.env.BATCH_CONCURRENCY = 'many';
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: [{}] });
+
+    const batch = await executeBatchQuery(['propertyDetailOwner'], [{ attomid: '9400001' }], { concurrency: Number('x') });
+
+    expect(getBatchLimits()).toEqual({ maxRows: 5000, concurrency: 4 });
+    expect(batch.succeeded).toBe(1);
+  });
+
+  it('does not let a BATCH_MAX_ROWS below 1 reject every batch', () => {
+    process.env.BATCH_MAX_ROWS = '-1';
+    expect(getBatchLimits().maxRows).toBe(5000);
+
+    process.env.BATCH_MAX_ROWS = '0';
+    expect(getBatchLimits().maxRows).toBe(5000);
+  });
+
+  it('rejects unknown kinds and oversized batches up front', async () => {
+    await expect(executeBatchQuery(['noSuchEndpoint'], [{ attomid: '1' }])).rejects.toMatchObject({ code: 'INVALID_PARAMS' });
+    await expect(executeBatchQuery(['propertyDetailOwner'], [])).rejects.toMatchObject({ code: 'INVALID_PARAMS' });
+  });
+});
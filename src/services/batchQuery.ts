@@ -0,0 +1,210 @@
+/**
+ * Batch Query Service
+ *
+ * Runs the same endpoint kinds for many rows (one-line addresses, address
+ * pairs or ATTOM IDs) with a bounded number of rows in flight. Each row gets
+ * its own results and errors, so one bad address never fails the whole batch.
+ */
+
+import { executeAttomQuery, QueryOptions } from './queryManager.js';
+import { endpoints } from '../config/endpointConfig.js';
+import { ambiguousAddressError, normalizeAddressInParams, resolveAddress } from '../utils/addressNormalizer.js';
+import { createLogger } from '../utils/logger.js';
+import { AddressUnresolvableError, ErrorPayload, InvalidParamsError, toErrorPayload } from '../utils/errors.js';
+
+const logger = createLogger('batchQuery');
+
+// Longest rate limit wait a row sits out before retrying once; longer waits
+// (daily quotas) skip the endpoint for the rest of the batch instead
+const MAX_QUOTA_WAIT_SECONDS = 60;
+
+/**
+ * One input row: a one-line address, or endpoint parameters such as
+ * { attomid } or { address1, address2 }
+ */
+export type BatchRow = string | Record<string, any>;
+
+/**
+ * Options of a batch run; the query options apply to every call
+ */
+export interface BatchQueryOptions extends QueryOptions {
+  params?: Record<string, any>;  // Parameters added to every row (the row's own values win)
+  concurrency?: number;          // Rows in flight at once, capped at BATCH_CONCURRENCY
+  signal?: AbortSignal;          // No further rows are started once aborted
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Outcome of one row
+ */
+export interface BatchRowResult {
+  index: number;
+  input: BatchRow;
+  status: 'ok' | 'partial' | 'error';   // partial: some endpoint kinds failed
+  results: Record<string, any>;          // Response per endpoint kind
+  errors: Record<string, ErrorPayload>;  // Error per endpoint kind, or under "row" when the row itself is unusable
+}
+
+/**
+ * Outcome of a batch run, rows in input order
+ */
+export interface BatchQueryResult {
+  total: number;
+  succeeded: number;
+  partial: number;
+  failed: number;
+  rows: BatchRowResult[];
+}
+
+/**
+ * Read the batch limits from BATCH_MAX_ROWS (default 5000) and BATCH_CONCURRENCY
+ * (default 4); malformed values and a BATCH_MAX_ROWS below 1 fall back to the defaults
+ */
+export function getBatchLimits(): { maxRows: number; concurrency: number } {
+  const maxRows = parseInt(process.env.BATCH_MAX_ROWS ?? '5000');
+  const concurrency = parseInt(process.env.BATCH_CONCURRENCY ?? '4');
+  return {
+    maxRows: Number.isFinite(maxRows) && maxRows > 0 ? maxRows : 5000,
+    concurrency: Number.isFinite(concurrency) ? Math.max(1, concurrency) : 4,
+  };
+}
+
+/**
+ * Turn a row into the parameters its queries are made with
+ */
+async function resolveRowParams(row: BatchRow, options: BatchQueryOptions): Promise<Record<string, any>> {
+  const shared = options.params ?? {};
+
+  if (typeof row === 'object' && row !== null && !Array.isArray(row)) {
+    const params = { ...shared, ...row };
+    return options.normalizeAddress === false ? params : normalizeAddressInParams(params);
+  }
+  if (typeof row !== 'string' || row.trim() === '') {
+    throw new InvalidParamsError('A row must be a one-line address or an object of endpoint parameters', { row });
+  }
+
+  if (options.normalizeAddress === false) {
+    // Send the address as typed: street, then city / state / ZIP after the first comma
+    const comma = row.indexOf(',');
+    if (comma < 0) {
+      throw new AddressUnresolvableError(`Address "${row}" has no city, state or ZIP after a comma`, { address: row });
+    }
+    return { ...shared, address1: row.slice(0, comma).trim(), address2: row.slice(comma + 1).trim() };
+  }
+
+  const resolution = await resolveAddress(row);
+  if (resolution.status === 'ambiguous') {
+    throw ambiguousAddressError(row, resolution.candidates);
+  }
+  if (resolution.status === 'unresolved') {
+    throw new AddressUnresolvableError(`Address "${row}" could not be normalized`, { address: row });
+  }
+  return { ...shared, address1: resolution.address.address1, address2: resolution.address.address2 };
+}
+
+/**
+ * Run a query, sitting out one short rate limit wait
+ */
+async function queryWithQuotaRetry(kind: string, params: Record<string, any>, options: QueryOptions): Promise<any> {
+  try {
+    return await executeAttomQuery(kind, params, options);
+  } catch (error) {
+    const payload = toErrorPayload(error);
+    if (payload.code !== 'QUOTA_EXCEEDED' || (payload.retryAfterSeconds ?? Infinity) > MAX_QUOTA_WAIT_SECONDS) {
+      throw error;
+    }
+    logger.debug(`Rate limited on ${kind}; retrying in ${payload.retryAfterSeconds}s`);
+    await new Promise(resolve => setTimeout(resolve, payload.retryAfterSeconds! * 1000));
+    return executeAttomQuery(kind, params, options);
+  }
+}
+
+/**
+ * Query several endpoint kinds for every row. Rows run BATCH_CONCURRENCY at a
+ * time (the rate limiter still paces the upstream calls) and the kinds of a
+ * row run one after the other, so later kinds reuse the ATTOM ID the first
+ * one resolved. Identical rows are normalized once.
+ * @param kinds Endpoint keys to query for each row
+ * @param rows One-line addresses or parameter objects
+ * @param options Batch and query options
+ * @returns A result per row, in input order
+ * @throws InvalidParamsError for unknown kinds or too many rows; row failures are reported per row
+ */
+export async function executeBatchQuery(
+  kinds: string[],
+  rows: BatchRow[],
+  options: BatchQueryOptions = {}
+): Promise<BatchQueryResult> {
+  const { maxRows, concurrency: maxConcurrency } = getBatchLimits();
+  const unknownKinds = kinds.filter(kind => !endpoints[kind]);
+  if (kinds.length === 0 || unknownKinds.length > 0) {
+    throw new InvalidParamsError(`Invalid endpoint kinds: ${unknownKinds.join(', ') || 'none given'}`, { unknownKinds });
+  }
+  if (rows.length === 0 || rows.length > maxRows) {
+    throw new InvalidParamsError(`A batch takes 1 to ${maxRows} rows; got ${rows.length}`, { maxRows });
+  }
+
+  const queryOptions: QueryOptions = { cacheMode: options.cacheMode, normalizeAddress: options.normalizeAddress };
+  const requested = Number.isFinite(options.concurrency) ? options.concurrency! : maxConcurrency;
+  const concurrency = Math.min(Math.max(1, requested), maxConcurrency, rows.length);
+  const normalizedRows = new Map<string, Promise<Record<string, any>>>();
+  // Kinds whose quota ran out for longer than a row may wait, with the error the remaining rows report
+  const exhaustedKinds = new Map<string, ErrorPayload>();
+
+  const runRow = async (index: number): Promise<BatchRowResult> => {
+    const input = rows[index];
+    const results: Record<string, any> = {};
+    const errors: Record<string, ErrorPayload> = {};
+
+    const rowKey = JSON.stringify(input);
+    if (!normalizedRows.has(rowKey)) {
+      normalizedRows.set(rowKey, resolveRowParams(input, options));
+    }
+    let params: Record<string, any> | undefined;
+    try {
+      params = await normalizedRows.get(rowKey)!;
+    } catch (error) {
+      errors.row = toErrorPayload(error);
+    }
+
+    for (const kind of params ? kinds : []) {
+      const exhausted = exhaustedKinds.get(kind);
+      if (exhausted) {
+        errors[kind] = exhausted;
+        continue;
+      }
+      try {
+        results[kind] = await queryWithQuotaRetry(kind, params!, queryOptions);
+      } catch (error) {
+        errors[kind] = toErrorPayload(error);
+        const { code, retryAfterSeconds } = errors[kind];
+        if (code === 'QUOTA_EXCEEDED' && (retryAfterSeconds ?? Infinity) > MAX_QUOTA_WAIT_SECONDS) {
+          exhaustedKinds.set(kind, errors[kind]);
+          logger.warn(`Quota for ${kind} is used up; skipping it for the remaining rows`);
+        }
+      }
+    }
+
+    const status = Object.keys(errors).length === 0 ? 'ok' : Object.keys(results).length > 0 ? 'partial' : 'error';
+    return { index, input, status, results, errors };
+  };
+
+  logger.info(`Starting batch of ${rows.length} rows x ${kinds.join(', ')} with ${concurrency} rows in flight`);
+  const results: BatchRowResult[] = new Array(rows.length);
+  let next = 0;
+  let completed = 0;
+  const worker = async () => {
+    while (next < rows.length && !options.signal?.aborted) {
+      const index = next++;
+      results[index] = await runRow(index);
+      options.onProgress?.(++completed, rows.length);
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  options.signal?.throwIfAborted();
+
+  const count = (status: BatchRowResult['status']) => results.filter(row => row.status === status).length;
+  const summary = { total: rows.length, succeeded: count('ok'), partial: count('partial'), failed: count('error') };
+  logger.info(`Finished batch: ${summary.succeeded} ok, ${summary.partial} partial, ${summary.failed} failed`);
+  return { ...summary, rows: results };
+}
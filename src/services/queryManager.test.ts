@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../utils/fetcher.js', () => ({
+  fetchAttom: vi.fn(),
+}));
+
+import { fetchAttom } from '../utils/fetcher.js';
+import { executeAttomQuery } from './queryManager.js';
+import { setPersistentStore } from '../utils/persistentCache.js';
+import { runAsTenant, setTenants } from '../utils/tenants.js';
+import { runWithTrace } from '../utils/tracing.js';
+import { NotFoundError } from '../utils/errors.js';
+import { getCachedData } from '../utils/caching.js';
+import { getCacheStore, setCacheStore } from '../utils/cacheStore.js';
+
+const fetchMock = vi.mocked(fetchAttom);
+
+// Keep ATTOM ID lookups in memory only; nothing should be written to disk by these tests
+setPersistentStore(null);
+
+describe('executeAttomQuery response cache', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('serves repeated calls from the cache', async () => {
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: [{ id: 1 }] });
+    const params = { address1: '1 Cache Hit St', address2: 'Denver, CO 80202' };
+
+    const first = await executeAttomQuery('propertyBasicProfile', params);
+    const second = await executeAttomQuery('propertyBasicProfile', params);
+
+    expect(second).toEqual(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers from ATTOM when the cache store fails', async () => {
+    const sharedStore = getCacheStore();
+    const failing = new Error('connect ECONNREFUSED 127.0.0.1:6379');
+    setCacheStore({
+      name: 'redis',
+      get: async () => { throw failing; },
+      set: async () => { throw failing; },
+      delete: async () => { throw failing; },
+      ttl: async () => { throw failing; },
+      keys: async () => { throw failing; },
+    });
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: [{ id: 1 }] });
+
+    try {
+      const result = await executeAttomQuery('propertyBasicProfile', { address1: '1 Outage St', address2: 'Denver, CO 80202' });
+      expect(result.property).toEqual([{ id: 1 }]);
+    } finally {
+      setCacheStore(sharedStore);
+    }
+  });
+
+  it('does not share cached responses between tenants', async () => {
+    setTenants([{ id: 'commercial', apiKey: 'commercial-key' }]);
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: [{ id: 1 }] });
+    const params = { address1: '1 Tenant St', address2: 'Denver, CO 80202' };
+
+    await executeAttomQuery('propertyBasicProfile', params);
+    await runAsTenant('commercial', () => executeAttomQuery('propertyBasicProfile', params));
+    await runAsTenant('commercial', () => executeAttomQuery('propertyBasicProfile', params));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('refetches and re-caches when cacheMode is refresh', async () => {
+    fetchMock.mockResolvedValueOnce({ status: { code: 0 }, version: 1 });
+    fetchMock.mockResolvedValueOnce({ status: { code: 0 }, version: 2 });
+    const params = { address1: '2 Refresh St', address2: 'Denver, CO 80202' };
+
+    await executeAttomQuery('propertyBasicProfile', params);
+    const refreshed = await executeAttomQuery('propertyBasicProfile', params, { cacheMode: 'refresh' });
+    const cached = await executeAttomQuery('propertyBasicProfile', params);
+
+    expect(refreshed.version).toBe(2);
+    expect(cached.version).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not let a refresh or bypass call join a default call in flight', async () => {
+    fetchMock.mockResolvedValue({ status: { code: 0 } });
+    const params = { address1: '4 In Flight St', address2: 'Denver, CO 80202' };
+
+    await Promise.all([
+      executeAttomQuery('propertyBasicProfile', params),
+      executeAttomQuery('propertyBasicProfile', params),
+      executeAttomQuery('propertyBasicProfile', params, { cacheMode: 'refresh' }),
+      executeAttomQuery('propertyBasicProfile', params, { cacheMode: 'bypass' }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('neither reads nor writes the cache when cacheMode is bypass', async () => {
+    fetchMock.mockResolvedValue({ status: { code: 0 } });
+    const params = { address1: '3 Bypass St', address2: 'Denver, CO 80202' };
+
+    await executeAttomQuery('propertyBasicProfile', params, { cacheMode: 'bypass' });
+    await executeAttomQuery('propertyBasicProfile', params);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ATTOMID_TO_ID fallback', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('maps an attomId variant onto the required id parameter', async () => {
+    fetchMock.mockResolvedValue({ status: { code: 0 } });
+
+    await executeAttomQuery('allEventsSnapshot', { attomId: '184713191' });
+
+    expect(fetchMock).toHaveBeenCalledWith('/propertyapi/v1.0.0/allevents/snapshot', { id: 184713191 });
+  });
+
+  it('fills the {propId} path parameter from an address lookup', async () => {
+    fetchMock.mockImplementation(async (path: string) =>
+      path === '/propertyapi/v1.0.0/property/buildingpermits'
+        ? { status: { code: 0 }, property: [{ identifier: { attomId: 555 } }] }
+        : { status: { code: 0 } }
+    );
+
+    await executeAttomQuery('salesComparablesPropId', { address1: '4 Comp St', address2: 'Denver, CO 80202', miles: 2 });
+
+    expect(fetchMock).toHaveBeenLastCalledWith('/property/v2/salescomparables/propid/{propId}', { propId: '555', miles: 2 });
+  });
+
+  it('retries a unit without a record with the building address', async () => {
+    fetchMock.mockImplementation(async (_path: string, params?: Record<string, any>) => {
+      if (params?.address1 === '6 Unit St Apt 4B') {
+        throw new NotFoundError('No ATTOM record matches the request');
+      }
+      return { status: { code: 0 }, property: [{ id: 6 }] };
+    });
+
+    const params = { address1: '6 Unit St Apt 4B', address2: 'Denver, CO 80202' };
+
+    const result = await executeAttomQuery('propertyBasicProfile', params);
+    await executeAttomQuery('propertyBasicProfile', params);
+
+    expect(result).toMatchObject({ property: [{ id: 6 }], unitDropped: true });
+    expect(fetchMock).toHaveBeenLastCalledWith('/propertyapi/v1.0.0/property/basicprofile', { address1: '6 Unit St', address2: 'Denver, CO 80202' });
+    // The building's response is not cached as the unit's, so the unit is asked for again
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('caches an ATTOM ID found for the building under the building\'s address only', async () => {
+    fetchMock.mockImplementation(async (path: string, params?: Record<string, any>) =>
+      path === '/propertyapi/v1.0.0/property/buildingpermits' && params?.address1 === '7 Unit St'
+        ? { status: { code: 0 }, property: [{ identifier: { attomId: 777 } }] }
+        : { status: { code: 0 } }
+    );
+
+    const result = await executeAttomQuery(
+      'salesComparablesPropId',
+      { address1: '7 Unit St Apt 4B', address2: 'Denver, CO 80202', miles: 2 },
+      { normalizeAddress: false }
+    );
+
+    expect(result.unitDropped).toBe(true);
+    expect(fetchMock).toHaveBeenLastCalledWith('/property/v2/salescomparables/propid/{propId}', { propId: '777', miles: 2 });
+    expect(await getCachedData('attomid:7 Unit St:Denver, CO 80202:default')).toBe('777');
+    expect(await getCachedData('attomid:7 Unit St Apt 4B:Denver, CO 80202:default')).toBeFalsy();
+  });
+});
+
+describe('TRY_ALLEVENTS_FIRST', () => {
+  const allEventsPath = '/propertyapi/v1.0.0/allevents/detail';
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('answers several endpoints from one cached AllEvents call', async () => {
+    fetchMock.mockResolvedValue({
+      status: { code: 0 },
+      property: [{ identifier: { attomId: 101 }, avm: { amount: { value: 500000 } }, sale: { amount: { saleamt: 450000 } } }],
+    });
+
+    const avm = await executeAttomQuery('avmSnapshot', { attomid: 101 });
+    const sale = await executeAttomQuery('saleDetail', { attomid: 101 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(allEventsPath, { id: 101 });
+    expect(avm.property[0].avm.amount.value).toBe(500000);
+    expect(avm.provenance.fieldSources.avm).toBe(allEventsPath);
+    expect(sale.property[0]).not.toHaveProperty('avm');
+  });
+
+  it('fills missing sub-objects from the specific endpoint and records their source', async () => {
+    fetchMock.mockImplementation(async (path: string) =>
+      path === allEventsPath
+        ? { status: { code: 0 }, property: [{ identifier: { attomId: 202 }, sale: {} }] }
+        : { status: { code: 0 }, property: [{ mortgage: { FirstConcurrent: { amount: 300000 } } }] }
+    );
+
+    const result = await executeAttomQuery('propertyDetailMortgage', { attomId: 202 });
+
+    expect(fetchMock).toHaveBeenLastCalledWith('/propertyapi/v1.0.0/property/detailmortgage', { attomid: 202 });
+    expect(result.property[0].mortgage.FirstConcurrent.amount).toBe(300000);
+    expect(result.provenance.fieldSources).toMatchObject({
+      identifier: allEventsPath,
+      mortgage: '/propertyapi/v1.0.0/property/detailmortgage',
+    });
+  });
+});
+
+describe('response validation', () => {
+  const malformed = { status: { code: 0 }, property: [{ identifier: { attomId: 303 }, avm: { amount: { value: { usd: 1 } } } }] };
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.RESPONSE_VALIDATION_MODE;
+  });
+
+  it('flags schema mismatches in lenient mode and still returns the data', async () => {
+    fetchMock.mockResolvedValue(malformed);
+
+    const result = await executeAttomQuery('avmSnapshot', { attomid: 303 });
+
+    expect(result.property[0].avm.amount.value).toEqual({ usd: 1 });
+    expect(result.validationIssues).toEqual([
+      expect.objectContaining({ path: 'property.0.avm.amount.value', code: 'invalid_union' }),
+    ]);
+  });
+
+  it('rejects schema mismatches in strict mode without caching them', async () => {
+    process.env.RESPONSE_VALIDATION_MODE = 'strict';
+    fetchMock.mockResolvedValue({ status: { code: 0 }, property: 'not-a-list' });
+    const params = { address1: '5 Strict St', address2: 'Denver, CO 80202' };
+
+    await expect(executeAttomQuery('propertyBasicProfile', params)).rejects.toMatchObject({
+      status: 502,
+      details: { validationIssues: [expect.objectContaining({ path: 'property' })] },
+    });
+    await expect(executeAttomQuery('propertyBasicProfile', params)).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('execution trace', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('records the fallback lookups of a query and which were served from cache', async () => {
+    fetchMock.mockImplementation(async (path: string) =>
+      path === '/propertyapi/v1.0.0/property/buildingpermits'
+        ? { status: { code: 0 }, property: [{ identifier: { attomId: 777 } }] }
+        : { status: { code: 0 } }
+    );
+    const params = { address1: '7 Trace St', address2: 'Denver, CO 80202' };
+
+    const first = await runWithTrace(() => executeAttomQuery('salesComparablesPropId', params));
+    const second = await runWithTrace(() => executeAttomQuery('salesComparablesPropId', params, { cacheMode: 'refresh' }));
+
+    const summarize = (spans: typeof first.trace.spans) => spans.map(({ name, cache }) => ({ name, cache }));
+    expect(summarize(first.trace.spans)).toEqual([
+      { name: 'executeAttomQuery', cache: 'miss' },
+      { name: 'applyFallbackStrategy', cache: undefined },
+      { name: 'fallbackAttomIdFromAddress', cache: 'miss' },
+      { name: 'addressNormalizer', cache: undefined },
+    ]);
+    expect(summarize(second.trace.spans)).toContainEqual({ name: 'fallbackAttomIdFromAddress', cache: 'hit' });
+    expect(second.trace.traceId).not.toBe(first.trace.traceId);
+    expect(first.trace.spans[2].parentId).toBe(first.trace.spans[1].id);
+  });
+});
@@ -21,8 +21,13 @@ import {
 } from '../utils/fallback.js';
 import { getSalesDateRange, getSalesTrendYearRange, getCalendarDateRange } from '../utils/dateUtils.js'; // Added getCalendarDateRange
 import { writeLog } from '../utils/logger.js';
-// All caching methods are now imported through fallback utility functions
-import { AttomApiError } from '../utils/errors.js'; // Corrected import path
+import { cacheData, getCachedData } from '../utils/caching.js';
+import { AddressUnresolvableError, InvalidParamsError, NotFoundError } from '../utils/errors.js';
+import { removeSecondaryUnit } from '../utils/uspsAddressParser.js';
+import { validateResponse } from '../utils/responseValidation.js';
+import { DEFAULT_TENANT_ID, getCurrentTenantId } from '../utils/tenants.js';
+import { currentSpan, withSpan } from '../utils/tracing.js';
+import { cacheLookups, fallbackOutcomes, inflightDedupHits } from '../utils/metrics.js';
 
 // Load retry constants
 const MAX_FALLBACK_ATTEMPTS = parseInt(process.env.MAX_FALLBACK_ATTEMPTS ?? '3');
@@ -31,6 +36,31 @@ const FALLBACK_DELAY_MS = parseInt(process.env.FALLBACK_DELAY_MS ?? '500');
 // Queue for tracking in-flight requests
 const requestQueue: Map<string, Promise<any>> = new Map();
 
+/**
+ * Per-call response cache behaviour:
+ * - 'default' serves cached responses and caches fresh ones
+ * - 'refresh' skips the cached response but caches the fresh one
+ * - 'bypass'  neither reads nor writes the response cache
+ */
+export type CacheMode = 'default' | 'refresh' | 'bypass';
+
+/**
+ * Options controlling a single query execution
+ */
+export interface QueryOptions {
+  cacheMode?: CacheMode;
+  /** Normalize addresses before the ATTOM ID / GeoID lookups (default true) */
+  normalizeAddress?: boolean;
+}
+
+/**
+ * Parameters after a fallback strategy ran
+ */
+interface FallbackParams {
+  updatedParams: Record<string, any>;
+  unitDropped: boolean;  // The unit had no record, so the ATTOM ID found is the building's
+}
+
 /**
  * Extract data from AllEvents response based on required fields
  * @param allEventsData AllEvents response data
@@ -79,28 +109,33 @@ function extractDataFromAllEvents(
  * Try to get data from AllEvents endpoint first
  * @param params Request parameters
  * @param fields Required fields from AllEvents
- * @returns AllEvents data or null if not available
+ * @param options Query options of the originating call (cache mode is passed on)
+ * @returns AllEvents data (flagged unitDropped if it is the building's) or null if not available
  */
 async function tryGetDataFromAllEvents(
   params: Record<string, any>,
-  fields: AllEventsDataField[]
+  fields: AllEventsDataField[],
+  options: QueryOptions = {}
 ): Promise<Record<string, unknown> | null> {
   try {
-    // First, get the attomId if not provided
-    let attomId = params.attomid;
+    // First, get the attomId if not provided (under any of its parameter names)
+    let attomId = findAttomIdInParams(params);
+    let unitDropped = false;
     
     if (!attomId && params.address1 && params.address2) {
       try {
         // Use our improved implementation to get the ATTOM ID
         writeLog(`[AllEvents Fallback] Getting ATTOM ID for: ${params.address1}, ${params.address2}`);
         // Use the new fallback function in fallback.ts instead
-        attomId = await fallbackAttomIdFromAddressCached(
+        const match = await fallbackAttomIdFromAddressCached(
           params.address1,
           params.address2,
           `allEvents:${params.address1}:${params.address2}`,
-          true // Use Google normalization
+          options.normalizeAddress !== false
         );
-        writeLog(`[AllEvents Fallback] ${attomId ? 'Successfully retrieved' : 'Failed to retrieve'} ATTOM ID: ${attomId ?? 'Not found'}`);
+        attomId = match.attomId;
+        unitDropped = match.unitDropped;
+        writeLog(`[AllEvents Fallback] ${attomId ? 'Successfully retrieved' : 'Failed to retrieve'} ATTOM ID: ${attomId || 'Not found'}`);
         if (!attomId) return null;
       } catch (error: any) {
         writeLog(`[AllEvents Fallback] Failed to retrieve ATTOM ID: ${error.message}`);
@@ -114,18 +149,61 @@ async function tryGetDataFromAllEvents(
       return null;
     }
     
-    // Call the AllEvents endpoint
-    // Removed verbose logging
-    const allEventsData = await fetchAttom('/propertyapi/v1.0.0/allevents/detail', { id: attomId }) as Record<string, unknown>;
+    // Call the AllEvents endpoint through the query pipeline so the full payload is
+    // cached once and reused by every endpoint that can be answered from it
+    const allEventsData = await executeAttomQuery('allEventsDetail', { id: attomId }, options) as Record<string, unknown>;
     
     // Extract the required fields
-    return extractDataFromAllEvents(allEventsData, fields);
+    const data = extractDataFromAllEvents(allEventsData, fields);
+    return data && unitDropped ? { ...data, unitDropped } : data;
   } catch (error: unknown) {
-    console.error('[AllEvents Fallback] Error:', error instanceof Error ? error.message : String(error));
+    writeLog(`[AllEvents Fallback] Error: ${error instanceof Error ? error.message : String(error)}`, 'error');
     return null;
   }
 }
 
+/**
+ * Fill the AllEvents fields that were missing from a specific endpoint's response
+ * and record where every field came from.
+ * @param allEventsData Data extracted from AllEvents (mutated)
+ * @param fields AllEvents fields the endpoint needs
+ * @param endpointPath Path of the specific endpoint
+ * @param endpointResponse Response of the specific endpoint, or null if it was not called / failed
+ * @returns The annotated AllEvents data
+ */
+function mergeAllEventsResult(
+  allEventsData: Record<string, any>,
+  fields: AllEventsDataField[],
+  endpointPath: string,
+  endpointResponse: Record<string, any> | null
+): Record<string, any> {
+  const allEventsPath = endpoints.allEventsDetail.path;
+  const property = allEventsData.property[0];
+  const endpointProperty = endpointResponse?.property?.[0];
+  const fieldSources: Record<string, string> = {};
+  const missingFields: string[] = [];
+
+  for (const key of Object.keys(property)) {
+    fieldSources[key] = allEventsPath;
+  }
+  for (const field of fields) {
+    if (property[field]) continue;
+    if (endpointProperty?.[field]) {
+      property[field] = endpointProperty[field];
+      fieldSources[field] = endpointPath;
+    } else {
+      missingFields.push(field);
+    }
+  }
+
+  allEventsData.provenance = {
+    strategy: FallbackStrategy.TRY_ALLEVENTS_FIRST,
+    fieldSources,
+    ...(missingFields.length > 0 && { missingFields }),
+  };
+  return allEventsData;
+}
+
 /**
  * Try to get data from AllEvents for a specific endpoint
  * @param endpointKey Endpoint key
@@ -192,7 +270,8 @@ function processGeoIdV4(geoIdV4: string, preferredSubtype: string): string {
 async function handleAddressToGeoIdFallback(
   endpointKey: string, 
   params: Record<string, any>,
-  config: EndpointConfig
+  config: EndpointConfig,
+  useNormalization: boolean
 ): Promise<Record<string, any>> {
   const updatedParams = { ...params };
   const requiredGeoIdParam = config.requiredParams.find(p => p.toLowerCase().includes('geoid'));
@@ -201,7 +280,6 @@ async function handleAddressToGeoIdFallback(
 
   if (!updatedParams[requiredGeoIdParam] && params.address1 && params.address2) {
     writeLog(`[QueryManager:handleAddressToGeoIdFallback] Applying ADDRESS_TO_GEOID fallback for ${endpointKey} (seeking ${requiredGeoIdParam}).`);
-    const useNormalization = true;
     const cacheKey = `geoid:${params.address1}:${params.address2}`;
     const preferredSubtype = config.preferredGeoIdSubtype ?? 'N2'; // Default preference if not specified in config
     const commonFallbackSubtype = 'CO'; // Use County FIPS as a common fallback if preferred is missing
@@ -245,12 +323,14 @@ async function handleAddressToGeoIdFallback(
       // The processGeoIdV4 function handles potential comma-separated values within a single subtype string
       const processed = processGeoIdV4(selectedGeoIdValue, selectedSubtype);
       updatedParams[requiredGeoIdParam] = processed;
+      fallbackOutcomes.inc({ strategy: FallbackStrategy.ADDRESS_TO_GEOID, outcome: 'success' });
       writeLog(`[QueryManager:handleAddressToGeoIdFallback] Fallback successful. Using processed GeoID: ${processed} (from subtype ${selectedSubtype})`);
     } else {
       // Only throw error if the parameter was truly required and couldn't be found
       writeLog(`[QueryManager:handleAddressToGeoIdFallback] ADDRESS_TO_GEOID fallback failed to find any suitable GeoID.`);
+      fallbackOutcomes.inc({ strategy: FallbackStrategy.ADDRESS_TO_GEOID, outcome: 'failure' });
       if (config.requiredParams.includes(requiredGeoIdParam)) {
-        throw new Error(`Required parameter '${requiredGeoIdParam}' could not be derived from address for endpoint ${endpointKey}. No suitable GeoID found.`);
+        throw new AddressUnresolvableError(`Required parameter '${requiredGeoIdParam}' could not be derived from address for endpoint ${endpointKey}. No suitable GeoID found.`, { endpointKey, param: requiredGeoIdParam });
       }
     }
   }
@@ -262,44 +342,66 @@ async function handleAddressToGeoIdFallback(
  * @param endpointKey Endpoint key
  * @param params Request parameters
  * @param config EndpointConfig
- * @returns Updated parameters with attomid
+ * @param useNormalization Whether to normalize the address before the lookup
+ * @returns Updated parameters with attomid, and whether it is the building's ATTOM ID
  */
 async function handleAddressToAttomIdFallback(
   endpointKey: string,
   params: Record<string, any>,
-  config: EndpointConfig
-): Promise<Record<string, any>> {
+  config: EndpointConfig,
+  useNormalization: boolean
+): Promise<FallbackParams> {
   const updatedParams = { ...params };
   const attomIdVariants = ['attomid', 'attomId', 'id', 'propid', 'propId'];
   const requiredAttomIdParam = config.requiredParams.find(p =>
     attomIdVariants.includes(p.toLowerCase())
   ) ?? 'attomid'; // Default to 'attomid' if no match found
+  let unitDropped = false;
 
   if (!updatedParams[requiredAttomIdParam] && updatedParams.address1 && updatedParams.address2) {
     writeLog(`[applyFallbackStrategy] Applying ADDRESS_TO_ATTOMID fallback for ${endpointKey} (seeking ${requiredAttomIdParam}).`);
-    const useNormalization = true; // Always use Google normalization for consistency
     const cacheKey = `request:${endpointKey}:${updatedParams.address1}:${updatedParams.address2}`;
 
     writeLog(`[applyFallbackStrategy] Using fallbackAttomIdFromAddressCached for: ${updatedParams.address1}, ${updatedParams.address2}`);
 
-    const foundAttomId = await fallbackAttomIdFromAddressCached(
+    const match = await fallbackAttomIdFromAddressCached(
       updatedParams.address1,
       updatedParams.address2,
       cacheKey,
       useNormalization
     );
+    const foundAttomId = match.attomId;
+    unitDropped = match.unitDropped;
 
     if (foundAttomId) {
       updatedParams[requiredAttomIdParam] = foundAttomId;
       writeLog(`[applyFallbackStrategy] Fallback successful. Using ATTOM ID: ${foundAttomId}`);
+      fallbackOutcomes.inc({ strategy: FallbackStrategy.ADDRESS_TO_ATTOMID, outcome: 'success' });
     } else {
       writeLog(`[applyFallbackStrategy] ADDRESS_TO_ATTOMID fallback failed to find ATTOM ID. No ID found after all attempts.`);
+      fallbackOutcomes.inc({ strategy: FallbackStrategy.ADDRESS_TO_ATTOMID, outcome: 'failure' });
       if (config.requiredParams.includes(requiredAttomIdParam)) {
-        throw new Error(`Required parameter '${requiredAttomIdParam}' could not be derived from address for endpoint ${endpointKey}.`);
+        throw new AddressUnresolvableError(`Required parameter '${requiredAttomIdParam}' could not be derived from address for endpoint ${endpointKey}.`, { endpointKey, param: requiredAttomIdParam });
       }
     }
   }
-  return updatedParams;
+  return { updatedParams, unitDropped };
+}
+
+// Parameters applyDateParameters fills in when the caller leaves them out
+const DEFAULTED_PARAMS: Record<string, string[]> = {
+  saleSnapshot: ['startsalesearchdate', 'endsalesearchdate'],
+  transactionSalesTrend: ['interval', 'startyear', 'endyear'],
+  assessmentSnapshot: ['startcalendardate', 'endcalendardate'],
+};
+
+/**
+ * Get the parameters of an endpoint that receive automatic defaults
+ * @param endpointKey Endpoint key
+ * @returns Parameter names callers may omit
+ */
+export function getDefaultedParams(endpointKey: string): string[] {
+  return DEFAULTED_PARAMS[endpointKey] ?? [];
 }
 
 /**
@@ -349,16 +451,84 @@ function applyDateParameters(
   return updatedParams;
 }
 
+// Parameter names under which callers pass an ATTOM property identifier, in lookup priority order
+const ATTOM_ID_PARAM_VARIANTS = ['attomid', 'attomId', 'AttomId', 'attom_id', 'id', 'propId', 'propid', 'PropId'];
+
+/**
+ * Check whether a parameter name is one of the names for an ATTOM property identifier
+ * @param name Parameter name
+ */
+export function isAttomIdParam(name: string): boolean {
+  return ATTOM_ID_PARAM_VARIANTS.some(variant => variant.toLowerCase() === name.toLowerCase());
+}
+
 /**
- * Handle the ATTOMID_TO_ID fallback strategy (placeholder)
+ * Find an ATTOM property identifier in request params under any of its known names
+ * @param params Request parameters
+ * @returns The identifier value, or undefined if none is present
+ */
+export function findAttomIdInParams(params: Record<string, any>): string | number | undefined {
+  for (const variant of ATTOM_ID_PARAM_VARIANTS) {
+    const value = params[variant];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Apply attomid-to-id fallback strategy.
+ * Maps whichever identifier variant the caller supplied (attomid, attomId, id, propId, ...)
+ * onto the ID parameter the endpoint requires; if none is present, resolves the
+ * ATTOM ID from address1/address2 through the cached ATTOM ID lookup.
+ * @param endpointKey Endpoint key
+ * @param params Request parameters
+ * @param config EndpointConfig
+ * @param useNormalization Whether to normalize the address before the lookup
+ * @returns Updated parameters with the endpoint's ID parameter set, and whether it is the building's ATTOM ID
  */
 async function handleAttomIdToIdFallback(
   endpointKey: string,
   params: Record<string, any>,
-  config: EndpointConfig
-): Promise<Record<string, any>> {
-  writeLog(`[applyFallbackStrategy] ATTOMID_TO_ID strategy not fully implemented for ${endpointKey}.`);
-  return params;
+  config: EndpointConfig,
+  useNormalization: boolean
+): Promise<FallbackParams> {
+  const updatedParams = { ...params };
+  const requiredIdParam = config.requiredParams.find(isAttomIdParam);
+
+  if (!requiredIdParam || updatedParams[requiredIdParam] !== undefined) {
+    return { updatedParams, unitDropped: false };
+  }
+
+  const existingId = findAttomIdInParams(updatedParams);
+  if (existingId !== undefined) {
+    updatedParams[requiredIdParam] = existingId;
+    writeLog(`[applyFallbackStrategy] ATTOMID_TO_ID mapped supplied ATTOM ID onto '${requiredIdParam}' for ${endpointKey}: ${existingId}`);
+    return { updatedParams, unitDropped: false };
+  }
+
+  if (updatedParams.address1 && updatedParams.address2) {
+    writeLog(`[applyFallbackStrategy] ATTOMID_TO_ID resolving ATTOM ID from address for ${endpointKey} (seeking ${requiredIdParam}).`);
+    const { attomId: foundAttomId, unitDropped } = await fallbackAttomIdFromAddressCached(
+      updatedParams.address1,
+      updatedParams.address2,
+      `request:${endpointKey}:${updatedParams.address1}:${updatedParams.address2}`,
+      useNormalization
+    );
+
+    if (foundAttomId) {
+      updatedParams[requiredIdParam] = foundAttomId;
+      writeLog(`[applyFallbackStrategy] Fallback successful. Using ATTOM ID ${foundAttomId} as '${requiredIdParam}'`);
+      return { updatedParams, unitDropped };
+    }
+  }
+
+  writeLog(`[applyFallbackStrategy] ATTOMID_TO_ID fallback could not determine '${requiredIdParam}' for ${endpointKey}.`);
+  if (updatedParams.address1 && updatedParams.address2) {
+    throw new AddressUnresolvableError(`Required parameter '${requiredIdParam}' could not be derived from address for endpoint ${endpointKey}.`, { endpointKey, param: requiredIdParam });
+  }
+  throw new InvalidParamsError(`Required parameter '${requiredIdParam}' could not be derived for endpoint ${endpointKey}. Provide attomid/attomId/id or address1+address2.`, { endpointKey, param: requiredIdParam });
 }
 
 /**
@@ -367,41 +537,39 @@ async function handleAttomIdToIdFallback(
  */
 export async function applyFallbackStrategy( // Added export
   endpointKey: string,
-  params: Record<string, any>
-): Promise<{ updatedParams: Record<string, any>; dataFromAllEvents: Record<string, unknown> | null }> {
+  params: Record<string, any>,
+  strategy?: FallbackStrategy,
+  options: QueryOptions = {}
+): Promise<FallbackParams & { dataFromAllEvents: Record<string, unknown> | null }> {
   const config = getEndpointConfig(endpointKey);
-  let updatedParams = { ...params }; // Clone params to avoid modifying the original object directly
+  const updatedParams = { ...params }; // Clone params to avoid modifying the original object directly
 
-  const effectiveStrategy = config.fallbackStrategy ?? FallbackStrategy.NONE; // Handle undefined strategy
+  const effectiveStrategy = strategy ?? config.fallbackStrategy ?? FallbackStrategy.NONE; // Handle undefined strategy
+  const useNormalization = options.normalizeAddress !== false;
 
   writeLog(`[applyFallbackStrategy] Applying fallback strategy: ${effectiveStrategy} for ${endpointKey}`);
 
-  switch (effectiveStrategy) {
-    case FallbackStrategy.ADDRESS_TO_ATTOMID: {
-      updatedParams = await handleAddressToAttomIdFallback(endpointKey, updatedParams, config);
-      break;
-    }
-    
-    case FallbackStrategy.ADDRESS_TO_GEOID: {
-      updatedParams = await handleAddressToGeoIdFallback(endpointKey, updatedParams, config);
-      break;
-    }
+  const result = await withSpan('applyFallbackStrategy', { endpointKey, strategy: effectiveStrategy }, async (): Promise<FallbackParams> => {
+    switch (effectiveStrategy) {
+      case FallbackStrategy.ADDRESS_TO_ATTOMID:
+        return handleAddressToAttomIdFallback(endpointKey, updatedParams, config, useNormalization);
 
-    case FallbackStrategy.ATTOMID_TO_ID: {
-      updatedParams = await handleAttomIdToIdFallback(endpointKey, updatedParams, config);
-      break;
-    }
+      case FallbackStrategy.ADDRESS_TO_GEOID:
+        return { updatedParams: await handleAddressToGeoIdFallback(endpointKey, updatedParams, config, useNormalization), unitDropped: false };
 
-    case FallbackStrategy.NONE:
-    default: {
-      // Should have been caught earlier, but log just in case
-      writeLog(`[applyFallbackStrategy] No fallback strategy applied for ${endpointKey}.`);
-      break;
+      case FallbackStrategy.ATTOMID_TO_ID:
+        return handleAttomIdToIdFallback(endpointKey, updatedParams, config, useNormalization);
+
+      case FallbackStrategy.NONE:
+      default:
+        // Should have been caught earlier, but log just in case
+        writeLog(`[applyFallbackStrategy] No fallback strategy applied for ${endpointKey}.`);
+        return { updatedParams, unitDropped: false };
     }
-  }
+  });
 
   // Default return structure if not TRY_ALLEVENTS_FIRST
-  return { updatedParams, dataFromAllEvents: null };
+  return { ...result, dataFromAllEvents: null };
 }
 
 // Helper to generate cache key (moved from executeQuery)
@@ -411,22 +579,37 @@ function getCacheKey(endpointKey: string, params: Record<string, any>): string {
     .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
     .map(([key, value]) => `${key}=${value}`)
     .join('&');
-  return `${endpointKey}:${paramString}`;
+  // Tenants have separate ATTOM contracts, so responses are never shared between them
+  const tenantId = getCurrentTenantId();
+  const tenantPrefix = tenantId === DEFAULT_TENANT_ID ? '' : `tenant=${tenantId}:`;
+  return `${tenantPrefix}${endpointKey}:${paramString}`;
 }
 
 /**
  * Execute a query to the ATTOM API
  * @param endpointKey Endpoint key from configuration
  * @param params Query parameters (can include address, geoIdV4, attomId, etc.)
+ * @param options Per-call options (e.g. response cache mode)
  * @returns API response with status and data specific to the endpoint
  */
 export async function executeAttomQuery(
   endpointKey: string, 
-  params: Record<string, any>
+  params: Record<string, any>,
+  options: QueryOptions = {}
+): Promise<any> {
+  return withSpan('executeAttomQuery', { endpointKey, cacheMode: options.cacheMode ?? 'default' }, () =>
+    runAttomQuery(endpointKey, params, options)
+  );
+}
+
+async function runAttomQuery(
+  endpointKey: string,
+  params: Record<string, any>,
+  options: QueryOptions
 ): Promise<any> {
   const config = getEndpointConfig(endpointKey);
   if (!config) {
-    throw new AttomApiError(`Configuration not found for endpoint: ${endpointKey}`, 400);
+    throw new InvalidParamsError(`Configuration not found for endpoint: ${endpointKey}`, { endpointKey });
   }
 
   // Normalize parameters first
@@ -437,13 +620,32 @@ export async function executeAttomQuery(
 
   const enhancedParams = { ...paramsWithDates }; // Start with normalized & date params
 
-  // Generate cache key for deduplication using normalized & dated params
+  // Generate cache key for caching and deduplication using normalized & dated params
   const cacheKey = getCacheKey(endpointKey, enhancedParams);
+  const cacheMode = options.cacheMode ?? 'default';
+  const useResponseCache = config.cache.useMemory && cacheMode !== 'bypass';
+
+  // Serve from the response cache unless the caller asked for fresh data
+  if (useResponseCache && cacheMode === 'default') {
+    const cachedResponse = await getCachedData(cacheKey, endpointKey);
+    if (cachedResponse !== undefined) {
+      writeLog(`[executeAttomQuery] Cache hit for ${cacheKey}`);
+      currentSpan().setCache('hit');
+      cacheLookups.inc({ cache: 'response', result: 'hit' });
+      return cachedResponse;
+    }
+    currentSpan().setCache('miss');
+    cacheLookups.inc({ cache: 'response', result: 'miss' });
+  }
 
-  // Check if request is already in flight
-  const existingRequest = requestQueue.get(cacheKey);
+  // Check if an identical request is already in flight; the per-call options are part of
+  // the key, so a refresh or bypass never joins a default call that may serve stale data
+  const inflightKey = `${cacheKey}|${cacheMode}|normalizeAddress=${options.normalizeAddress !== false}`;
+  const existingRequest = requestQueue.get(inflightKey);
   if (existingRequest) {
     // Removed verbose logging
+    currentSpan().setAttribute('joinedInFlightRequest', true);
+    inflightDedupHits.inc({ endpoint: endpointKey });
     return existingRequest;
   }
 
@@ -452,24 +654,45 @@ export async function executeAttomQuery(
     try {
       let updatedParams = { ...enhancedParams }; // Start with normalized & dated params
       let dataFromAllEvents: Record<string, unknown> | null = null;
+      let unitDropped = false;
 
       // 1. Handle TRY_ALLEVENTS_FIRST strategy explicitly
-      if (config.fallbackStrategy === FallbackStrategy.TRY_ALLEVENTS_FIRST && config.allEventsFields) {
+      const tryAllEventsFirst = config.fallbackStrategy === FallbackStrategy.TRY_ALLEVENTS_FIRST && !!config.allEventsFields?.length;
+      if (tryAllEventsFirst && config.allEventsFields) {
         writeLog(`[executeAttomQuery] Trying AllEvents first for ${endpointKey}`);
-        dataFromAllEvents = await tryGetDataFromAllEvents(updatedParams, config.allEventsFields);
-        if (dataFromAllEvents) {
+        dataFromAllEvents = await tryGetDataFromAllEvents(updatedParams, config.allEventsFields, options);
+        const allEventsProperty = (dataFromAllEvents?.property as any[] | undefined)?.[0];
+        if (dataFromAllEvents && config.allEventsFields.every(field => allEventsProperty?.[field])) {
           writeLog(`[executeAttomQuery] Data found via AllEvents for ${endpointKey}. Returning early.`);
-          return dataFromAllEvents; // Return early if data found
+          const result = validateResponse(
+            endpointKey,
+            config.responseSchema,
+            mergeAllEventsResult(dataFromAllEvents, config.allEventsFields, config.path, null)
+          );
+          // A building-level match is never cached as the unit's response
+          if (useResponseCache && !result.unitDropped) {
+            await cacheData(cacheKey, result, endpointKey);
+          }
+          return result; // Return early if data found
+        } else if (dataFromAllEvents) {
+          writeLog(`[executeAttomQuery] AllEvents is missing some fields for ${endpointKey}. Filling them in from the endpoint.`);
+          // Reuse the ATTOM ID AllEvents resolved so the direct call needs no second lookup
+          const resolvedAttomId = allEventsProperty?.identifier?.attomId;
+          unitDropped = dataFromAllEvents.unitDropped === true;
+          if (resolvedAttomId && config.requiredParams.includes('attomid') && updatedParams.attomid === undefined) {
+            updatedParams.attomid = resolvedAttomId;
+          }
         } else {
           writeLog(`[executeAttomQuery] Data not found via AllEvents for ${endpointKey}. Proceeding with other fallbacks/direct call.`);
         }
       }
 
-      // 2. Apply other fallback strategies if needed (excluding TRY_ALLEVENTS_FIRST)
-      if (config.fallbackStrategy && config.fallbackStrategy !== FallbackStrategy.TRY_ALLEVENTS_FIRST) {
-         // Note: applyFallbackStrategy now only handles non-AllEvents fallbacks
-        const fallbackResult = await applyFallbackStrategy(endpointKey, updatedParams);
+      // 2. Apply other fallback strategies if needed (for TRY_ALLEVENTS_FIRST, the direct call's strategy)
+      const directStrategy = tryAllEventsFirst ? config.directFallbackStrategy : config.fallbackStrategy;
+      if (directStrategy && directStrategy !== FallbackStrategy.TRY_ALLEVENTS_FIRST) {
+        const fallbackResult = await applyFallbackStrategy(endpointKey, updatedParams, directStrategy, options);
         updatedParams = fallbackResult.updatedParams;
+        unitDropped ||= fallbackResult.unitDropped;
         // dataFromAllEvents from applyFallbackStrategy should always be null now
       }
       
@@ -485,26 +708,67 @@ export async function executeAttomQuery(
 
       // 4. Check required params *after* fallbacks
       if (!hasRequiredParams(endpointKey, finalParams)) {
-         throw new AttomApiError(`Missing required parameters for endpoint ${endpointKey} after applying fallbacks. Required: ${config.requiredParams.join(', ')}. Provided: ${Object.keys(finalParams).join(', ')}`, 400);
+         throw new InvalidParamsError(`Missing required parameters for endpoint ${endpointKey} after applying fallbacks. Required: ${config.requiredParams.join(', ')}. Provided: ${Object.keys(finalParams).join(', ')}`, { endpointKey, requiredParams: config.requiredParams });
       }
 
       // 5. Execute the final API request
       writeLog(`[executeAttomQuery] Executing final API call for ${endpointKey} with params: ${JSON.stringify(finalParams)}`);
-      const response = await fetchAttom(config.path, finalParams);
+      const fetched = await fetchAttomWithUnitFallback(endpointKey, config.path, finalParams);
+      const response = unitDropped ? { ...fetched, unitDropped } : fetched;
+
+      // 6. Combine with partial AllEvents data, if any, keeping provenance
+      const merged = dataFromAllEvents && config.allEventsFields
+        ? mergeAllEventsResult(dataFromAllEvents, config.allEventsFields, config.path, response)
+        : response;
+
+      // 7. Check the response shape (strict mode throws, so malformed data is never cached)
+      const result = validateResponse(endpointKey, config.responseSchema, merged);
 
-      return response;
+      // 8. Cache the successful response with the endpoint's configured TTL; a
+      // building-level match is never cached as the unit's response
+      if (useResponseCache && !result.unitDropped) {
+        await cacheData(cacheKey, result, endpointKey);
+      }
+
+      return result;
     } finally {
       // Remove from queue when done
-      requestQueue.delete(cacheKey);
+      requestQueue.delete(inflightKey);
     }
   })();
 
   // Add to queue
-  requestQueue.set(cacheKey, requestPromise);
+  requestQueue.set(inflightKey, requestPromise);
 
   return requestPromise;
 }
 
+/**
+ * Fetch an endpoint; if a unit-level address (address1 "123 Main St Apt 4")
+ * matches no record, retry once with the building's address and flag the
+ * response with unitDropped
+ */
+async function fetchAttomWithUnitFallback(
+  endpointKey: string,
+  path: string,
+  params: Record<string, any>
+): Promise<any> {
+  try {
+    return await fetchAttom(path, params);
+  } catch (error) {
+    const buildingAddress1 = error instanceof NotFoundError && typeof params.address1 === 'string'
+      ? removeSecondaryUnit(params.address1)
+      : null;
+    if (!buildingAddress1) {
+      throw error;
+    }
+    writeLog(`[executeAttomQuery] No ${endpointKey} record for the unit, retrying with the building address: ${buildingAddress1}`);
+    currentSpan().setAttribute('unitDropped', true);
+    const response = await fetchAttom(path, { ...params, address1: buildingAddress1 });
+    return { ...response, unitDropped: true };
+  }
+}
+
 /**
  * Helper function to normalize parameter types
  */
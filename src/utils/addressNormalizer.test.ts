@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  AddressNormalizer, getNormalizerChain, normalizeAddressInParams, normalizeAddressStringForAttom, registerAddressNormalizer, resolveAddress,
+} from './addressNormalizer.js';
+import { AddressAmbiguousError } from './errors.js';
+import { addressNormalizations } from './metrics.js';
+
+const slowNormalizer: AddressNormalizer = {
+  name: 'slow',
+  isAvailable: () => true,
+  normalize: (_address, signal) => new Promise(resolve => {
+    const timer = setTimeout(() => resolve([]), 10_000);
+    signal.addEventListener('abort', () => clearTimeout(timer));
+  }),
+};
+
+const offlineNormalizer: AddressNormalizer = {
+  name: 'offline',
+  isAvailable: () => false,
+  normalize: async () => { throw new Error('must not be called'); },
+};
+
+// Geocoder that knows two Main Streets
+const geocoder: AddressNormalizer = {
+  name: 'geocoder',
+  isAvailable: () => true,
+  normalize: async () => [
+    { address1: '100 Main St', address2: 'Springfield, IL 62701', formattedAddress: '100 Main St, Springfield, IL 62701, USA', provider: 'geocoder', confidence: 0.9 },
+    { address1: '100 Main St', address2: 'Boston, MA 02129', formattedAddress: '100 Main St, Boston, MA 02129, USA', provider: 'geocoder', confidence: 0.9 },
+  ],
+};
+
+registerAddressNormalizer(slowNormalizer);
+registerAddressNormalizer(geocoder);
+registerAddressNormalizer(offlineNormalizer);
+
+describe('address normalizer chain', () => {
+  afterEach(() => {
+    delete process.env.ADDRESS_NORMALIZERS;
+    delete process.env.ADDRESS_NORMALIZER_TIMEOUT_MS;
+  });
+
+  it('parses priority order and per-provider timeouts', () => {
+    const chain = getNormalizerChain('slow:25, local, nominatim, attom');
+    expect(chain.map(({ normalizer, timeoutMs }) => [normalizer.name, timeoutMs])).toEqual([
+      ['slow', 25],
+      ['local', 5000],
+      ['attom', 5000],
+    ]);
+  });
+
+  it('uses a 5000 ms timeout in place of malformed ones', () => {
+    process.env.ADDRESS_NORMALIZER_TIMEOUT_MS = 'five seconds';
+
+    const chain = getNormalizerChain('slow:soon, local');
+
+    expect(chain.map(({ timeoutMs }) => timeoutMs)).toEqual([5000, 5000]);
+  });
+
+  it('falls through timed-out and unavailable providers and records the provider', async () => {
+    process.env.ADDRESS_NORMALIZERS = 'offline,slow:20,local';
+    const before = addressNormalizations.get({ provider: 'slow', outcome: 'error' });
+
+    const normalized = await normalizeAddressStringForAttom('4529 Winona Court, Denver, CO 80212');
+
+    expect(normalized).toMatchObject({ address1: '4529 WINONA CT', address2: 'DENVER, CO 80212', provider: 'local', confidence: 0.8 });
+    expect(addressNormalizations.get({ provider: 'slow', outcome: 'error' })).toBe(before + 1);
+  });
+
+  it('passes addresses through to ATTOM as the last resort', async () => {
+    process.env.ADDRESS_NORMALIZERS = 'local,attom';
+
+    expect(await normalizeAddressStringForAttom('Lot 7 Ranch Road, Somewhere')).toMatchObject({
+      address1: 'Lot 7 Ranch Road',
+      address2: 'Somewhere',
+      provider: 'attom',
+    });
+  });
+
+  it('ranks candidates by similarity to the input', async () => {
+    process.env.ADDRESS_NORMALIZERS = 'geocoder';
+
+    const resolution = await resolveAddress('100 Main Street, Boston, Massachusetts 02129');
+
+    expect(resolution.status).toBe('resolved');
+    expect(resolution.status === 'resolved' && resolution.address).toMatchObject({ address2: 'Boston, MA 02129', similarity: 1 });
+  });
+
+  it('reports ambiguous addresses with their candidates instead of picking one', async () => {
+    process.env.ADDRESS_NORMALIZERS = 'geocoder,attom';
+
+    const resolution = await resolveAddress('100 Main St');
+    expect(resolution.status).toBe('ambiguous');
+    expect(resolution.status === 'ambiguous' && resolution.candidates.map(candidate => candidate.similarity)).toEqual([0.67, 0.67]);
+
+    const params = { address: '100 Main St' };
+    const error = await normalizeAddressInParams(params).catch(err => err);
+    expect(error).toBeInstanceOf(AddressAmbiguousError);
+    expect(error.code).toBe('ADDRESS_AMBIGUOUS');
+    expect(error.details.candidates).toHaveLength(2);
+  });
+});
@@ -1,80 +1,246 @@
 import { writeLog } from './logger.js';
-import { getPlaceDetails, getPlaceSuggestions } from './googlePlaces.js';
+import { googlePlacesNormalizer } from './googlePlaces.js';
+import { addressSimilarity, uspsParserNormalizer } from './uspsAddressParser.js';
+import { withSpan } from './tracing.js';
+import { addressNormalizations } from './metrics.js';
+import { AddressAmbiguousError } from './errors.js';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
 
 /**
- * Normalizes an address string for use with ATTOM API
- * @param address The full address to normalize
- * @returns A promise with the normalized address components or null if normalization fails
+ * Address in the form ATTOM expects, with the provider that produced it
  */
-export async function normalizeAddressStringForAttom(address: string): Promise<{
-  address1: string;
-  address2: string;
+export interface NormalizedAddress {
+  address1: string;          // e.g. "123 Main St"
+  address2: string;          // e.g. "Denver, CO 80202"
+  latitude?: number;
+  longitude?: number;
   formattedAddress: string;
-} | null> {
-  try {
-    // Use Google Places API to search for the address
-    const searchResults = await getPlaceSuggestions(address);
-    
-    if (!searchResults || searchResults.length === 0) {
-      writeLog(`[Address Normalization] No results found for address: ${address}`);
-      return null;
+  provider: string;          // Name of the AddressNormalizer, e.g. "google"
+  confidence: number;        // 0-1, how sure the provider is that this is the input's address
+  similarity?: number;       // 0-1, how closely formattedAddress matches the input (set by the chain)
+}
+
+/**
+ * Outcome of normalizing one address
+ * - resolved: the best candidate is similar enough to the input to query ATTOM with
+ * - ambiguous: candidates were found, but none matches the input closely enough
+ * - unresolved: no normalizer found the address
+ */
+export type AddressResolution =
+  | { status: 'resolved'; address: NormalizedAddress; candidates: NormalizedAddress[] }
+  | { status: 'ambiguous'; candidates: NormalizedAddress[] }
+  | { status: 'unresolved' };
+
+/**
+ * A geocoder or parser that turns a free-form address into ATTOM's address1 / address2.
+ * Register further backends (e.g. a self-hosted Nominatim or Pelias) with
+ * registerAddressNormalizer and list them in ADDRESS_NORMALIZERS.
+ */
+export interface AddressNormalizer {
+  /** Name used in ADDRESS_NORMALIZERS and recorded as NormalizedAddress.provider */
+  readonly name: string;
+  /** Whether the provider is configured (e.g. has its API key) */
+  isAvailable(): boolean;
+  /**
+   * @param address Full address string
+   * @param signal Aborted when the provider's timeout expires
+   * @returns Candidate matches, best first; empty if the provider found no match
+   */
+  normalize(address: string, signal: AbortSignal): Promise<NormalizedAddress[]>;
+}
+
+/**
+ * ATTOM-only path: pass the address through as typed, split into street and
+ * city / state / ZIP at the first comma, and let ATTOM match it
+ */
+export const attomPassthroughNormalizer: AddressNormalizer = {
+  name: 'attom',
+  isAvailable: () => true,
+  async normalize(address) {
+    const parts = address.split(',');
+    if (parts.length < 2) {
+      return [];
     }
-    
-    // Get the first result's place ID
-    const placeId = searchResults[0].place_id;
-    
-    // Fetch detailed information using the place ID
-    const placeDetails = await getPlaceDetails(placeId);
-    
-    if (!placeDetails) {
-      writeLog(`[Address Normalization] Could not fetch details for place ID: ${placeId}`);
-      return null;
+    const address1 = parts[0].trim();
+    const address2 = parts.slice(1).join(',').trim();
+    return [{ address1, address2, formattedAddress: `${address1}, ${address2}`, provider: 'attom', confidence: 0.3 }];
+  },
+};
+
+const DEFAULT_CHAIN = 'google,local,attom';
+const MAX_CANDIDATES = 5;
+
+/**
+ * Read a normalizer timeout in ms; a malformed value would fire after about
+ * 1 ms and make every provider time out, so it falls back to the default
+ */
+function parseTimeoutMs(value: string | undefined, defaultValue: number): number {
+  const timeoutMs = parseInt(value ?? '');
+  return Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : defaultValue;
+}
+
+/**
+ * Lowest similarity between input and normalized address at which the address
+ * is used, from ADDRESS_MATCH_THRESHOLD (default 0.8)
+ */
+export function getAddressMatchThreshold(): number {
+  const threshold = parseFloat(process.env.ADDRESS_MATCH_THRESHOLD ?? '0.8');
+  return Number.isFinite(threshold) ? threshold : 0.8;
+}
+
+const normalizers = new Map<string, AddressNormalizer>(
+  [googlePlacesNormalizer, uspsParserNormalizer, attomPassthroughNormalizer].map(normalizer => [normalizer.name, normalizer])
+);
+
+/**
+ * Make an address normalizer selectable in ADDRESS_NORMALIZERS (replaces one of the same name)
+ */
+export function registerAddressNormalizer(normalizer: AddressNormalizer): void {
+  normalizers.set(normalizer.name, normalizer);
+}
+
+/**
+ * One step of the normalizer chain
+ */
+export interface NormalizerChainEntry {
+  normalizer: AddressNormalizer;
+  timeoutMs: number;
+}
+
+/**
+ * The normalizers tried in priority order, from ADDRESS_NORMALIZERS
+ * ("google:3000,local,attom": name, optionally with a timeout in ms;
+ * ADDRESS_NORMALIZER_TIMEOUT_MS otherwise). Unknown names are skipped.
+ */
+export function getNormalizerChain(spec: string = process.env.ADDRESS_NORMALIZERS ?? DEFAULT_CHAIN): NormalizerChainEntry[] {
+  const defaultTimeoutMs = parseTimeoutMs(process.env.ADDRESS_NORMALIZER_TIMEOUT_MS, 5000);
+  const chain: NormalizerChainEntry[] = [];
+  for (const entry of spec.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [name, timeout] = entry.split(':');
+    const normalizer = normalizers.get(name.toLowerCase());
+    if (!normalizer) {
+      writeLog(`[Address Normalization] Unknown address normalizer "${name}" in ADDRESS_NORMALIZERS, skipping`, 'warn');
+      continue;
     }
-    
-    // Extract address components
-    let streetNumber = '';
-    let streetName = '';
-    let city = '';
-    let state = '';
-    let postalCode = '';
-    
-    for (const component of placeDetails.result.address_components) {
-      if (component.types.includes('street_number')) {
-        streetNumber = component.long_name;
-      } else if (component.types.includes('route')) {
-        streetName = component.long_name;
-      } else if (component.types.includes('locality')) {
-        city = component.long_name;
-      } else if (component.types.includes('administrative_area_level_1')) {
-        state = component.short_name;
-      } else if (component.types.includes('postal_code')) {
-        postalCode = component.long_name;
+    chain.push({ normalizer, timeoutMs: parseTimeoutMs(timeout, defaultTimeoutMs) });
+  }
+  return chain;
+}
+
+/**
+ * Run one normalizer, aborting it once its timeout expires
+ */
+async function normalizeWithTimeout(
+  { normalizer, timeoutMs }: NormalizerChainEntry,
+  address: string
+): Promise<NormalizedAddress[]> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${normalizer.name} did not answer within ${timeoutMs} ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([normalizer.normalize(address, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Score candidates by similarity to the input, best first (ties go to the more confident provider)
+ */
+function rankCandidates(address: string, candidates: NormalizedAddress[]): NormalizedAddress[] {
+  return candidates
+    .map(candidate => ({ ...candidate, similarity: addressSimilarity(address, candidate.formattedAddress) }))
+    .sort((a, b) => b.similarity - a.similarity || b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Normalize an address: each available normalizer of the chain is tried in
+ * order until one returns candidates, which are ranked by similarity to the input
+ * @param address The full address to normalize
+ * @returns The best candidate if it reaches ADDRESS_MATCH_THRESHOLD, else the candidates found
+ */
+export async function resolveAddress(address: string): Promise<AddressResolution> {
+  for (const entry of getNormalizerChain()) {
+    const { normalizer } = entry;
+    if (!normalizer.isAvailable()) {
+      continue;
+    }
+    try {
+      const candidates = await withSpan('addressNormalizer', { provider: normalizer.name }, async span => {
+        const ranked = rankCandidates(address, await normalizeWithTimeout(entry, address));
+        span.setAttribute('candidates', ranked.length);
+        span.setAttribute('similarity', ranked[0]?.similarity);
+        return ranked;
+      });
+      if (candidates.length === 0) {
+        addressNormalizations.inc({ provider: normalizer.name, outcome: 'no_match' });
+        writeLog(`[Address Normalization] ${normalizer.name} found no match for address: ${address}`);
+        continue;
+      }
+      // The provider found the address but not unambiguously: later (less precise) providers would only guess
+      if (candidates[0].similarity! < getAddressMatchThreshold()) {
+        addressNormalizations.inc({ provider: normalizer.name, outcome: 'ambiguous' });
+        writeLog(`[Address Normalization] ${normalizer.name} found ${candidates.length} candidates for address "${address}", best similarity ${candidates[0].similarity}`);
+        return { status: 'ambiguous', candidates };
       }
+      addressNormalizations.inc({ provider: normalizer.name, outcome: 'success' });
+      return { status: 'resolved', address: candidates[0], candidates };
+    } catch (error: unknown) {
+      addressNormalizations.inc({ provider: normalizer.name, outcome: 'error' });
+      writeLog(`[Address Normalization] ${normalizer.name} failed for address "${address}": ${error instanceof Error ? error.message : String(error)}`, 'warn');
     }
-    
-    // Construct normalized address components
-    const address1 = `${streetNumber} ${streetName}`.trim();
-    const address2 = `${city}, ${state} ${postalCode}`.trim();
-    const formattedAddress = placeDetails.result.formatted_address || `${address1}, ${address2}`;
-    
-    return {
-      address1,
-      address2,
-      formattedAddress
-    };
-  } catch (error: unknown) {
-    writeLog(`[Address Normalization] Error normalizing address "${address}": ${error instanceof Error ? error.message : String(error)}`);
-    return null;
   }
+  return { status: 'unresolved' };
+}
+
+/**
+ * Normalizes an address string for use with ATTOM API
+ * @param address The full address to normalize
+ * @returns The normalized address, or null if it was not found or is ambiguous
+ */
+export async function normalizeAddressStringForAttom(address: string): Promise<NormalizedAddress | null> {
+  const resolution = await resolveAddress(address);
+  return resolution.status === 'resolved' ? resolution.address : null;
+}
+
+/**
+ * Error for an ambiguous address, listing the candidates the caller may choose from
+ */
+export function ambiguousAddressError(address: string, candidates: NormalizedAddress[]): AddressAmbiguousError {
+  return new AddressAmbiguousError(
+    `Address "${address}" is ambiguous; retry with one of the candidates or add city, state and ZIP`,
+    {
+      address,
+      threshold: getAddressMatchThreshold(),
+      candidates: candidates.map(({ address1, address2, formattedAddress, provider, similarity }) =>
+        ({ address1, address2, formattedAddress, provider, similarity })),
+    }
+  );
 }
 
 /**
  * Precisely normalize only address fields in a parameter object
  * @param params The complete parameter object (may contain nested structures)
  * @returns A new parameter object with only address fields normalized
+ * @throws AddressAmbiguousError if an address matches several places and none closely enough
  */
 export async function normalizeAddressInParams(
   params: Record<string, any>
+): Promise<Record<string, any>> {
+  return withSpan('normalizeAddressInParams', undefined, () => normalizeAddressFields(params));
+}
+
+async function normalizeAddressFields(
+  params: Record<string, any>
 ): Promise<Record<string, any>> {
   // Create a deep copy of the params to avoid modifying the original
   const normalizedParams = JSON.parse(JSON.stringify(params));
@@ -115,19 +281,18 @@ async function normalizeAddressPair(
   address1Field: string,
   address2Field: string
 ): Promise<void> {
-  try {
-    const normalized = await normalizeAddressStringForAttom(
-      `${obj[address1Field]}, ${obj[address2Field]}`
-    );
-    
-    if (normalized) {
-      // Only update the address fields, nothing else
-      obj[address1Field] = normalized.address1;
-      obj[address2Field] = normalized.address2;
-      writeLog(`[Address Normalization] Normalized: ${normalized.formattedAddress}`);
-    }
-  } catch (error: unknown) {
-    writeLog(`[Address Normalization] Failed: ${error instanceof Error ? error.message : String(error)}`);
+  const address = `${obj[address1Field]}, ${obj[address2Field]}`;
+  const resolution = await resolveAddress(address);
+  if (resolution.status === 'ambiguous') {
+    throw ambiguousAddressError(address, resolution.candidates);
+  }
+
+  if (resolution.status === 'resolved') {
+    const normalized = resolution.address;
+    // Only update the address fields, nothing else
+    obj[address1Field] = normalized.address1;
+    obj[address2Field] = normalized.address2;
+    writeLog(`[Address Normalization] Normalized by ${normalized.provider} (similarity ${normalized.similarity}): ${normalized.formattedAddress}`);
   }
 }
 
@@ -138,15 +303,15 @@ async function normalizeFullAddress(
   obj: Record<string, any>,
   addressField: string
 ): Promise<void> {
-  try {
-    const normalized = await normalizeAddressStringForAttom(obj[addressField]);
-    
-    if (normalized) {
-      // For single address fields, we update with the formatted address
-      obj[addressField] = normalized.formattedAddress;
-      writeLog(`[Address Normalization] Normalized: ${normalized.formattedAddress}`);
-    }
-  } catch (error: unknown) {
-    writeLog(`[Address Normalization] Failed: ${error instanceof Error ? error.message : String(error)}`);
+  const resolution = await resolveAddress(obj[addressField]);
+  if (resolution.status === 'ambiguous') {
+    throw ambiguousAddressError(obj[addressField], resolution.candidates);
+  }
+
+  if (resolution.status === 'resolved') {
+    const normalized = resolution.address;
+    // For single address fields, we update with the formatted address
+    obj[addressField] = normalized.formattedAddress;
+    writeLog(`[Address Normalization] Normalized by ${normalized.provider} (similarity ${normalized.similarity}): ${normalized.formattedAddress}`);
   }
 }
\ No newline at end of file
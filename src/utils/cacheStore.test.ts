@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CacheStore, MemoryCacheStore, RedisCacheStore, RedisCommandClient } from './cacheStore.js';
+
+/**
+ * In-process stand-in for a Redis server implementing the commands RedisCacheStore uses
+ */
+class FakeRedis implements RedisCommandClient {
+  private readonly values = new Map<string, { value: string; expiresAt?: number }>();
+
+  private live(key: string) {
+    const entry = this.values.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get(key: string) {
+    return this.live(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, _token?: 'EX', seconds?: number) {
+    this.values.set(key, { value, expiresAt: seconds === undefined ? undefined : Date.now() + seconds * 1000 });
+    return 'OK';
+  }
+
+  async del(key: string) {
+    return this.values.delete(key) ? 1 : 0;
+  }
+
+  async ttl(key: string) {
+    const entry = this.live(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async scan(_cursor: string, _match: 'MATCH', pattern: string): Promise<[string, string[]]> {
+    const prefix = pattern.slice(0, -1).replace(/\\(.)/g, '$1');
+    return ['0', [...this.values.keys()].filter(key => key.startsWith(prefix) && this.live(key))];
+  }
+}
+
+const backends: Array<[string, () => CacheStore]> = [
+  ['memory', () => new MemoryCacheStore()],
+  ['redis', () => new RedisCacheStore(new FakeRedis(), 'test:')],
+];
+
+describe.each(backends)('%s cache store', (_name, createStore) => {
+  let store: CacheStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips JSON values and deletes them', async () => {
+    await store.set('attomid:1 Main St', { attomid: '123', geoIdV4: { N2: 'abc' } }, 60);
+    expect(await store.get('attomid:1 Main St')).toEqual({ attomid: '123', geoIdV4: { N2: 'abc' } });
+
+    await store.delete('attomid:1 Main St');
+    expect(await store.get('attomid:1 Main St')).toBeUndefined();
+  });
+
+  it('returns copies, so changing a result or the stored value leaves the cache as it was', async () => {
+    const value = { property: [{ id: 1 }] };
+    await store.set('response', value, 60);
+    value.property.push({ id: 2 });
+    (await store.get('response')).property[0].id = 99;
+
+    expect(await store.get('response')).toEqual({ property: [{ id: 1 }] });
+  });
+
+  it('expires entries after their TTL and reports the remaining TTL', async () => {
+    await store.set('short', 'value', 10);
+    await store.set('forever', 'value');
+    expect(await store.ttl('short')).toBe(10);
+    expect(await store.ttl('forever')).toBe(-1);
+
+    vi.advanceTimersByTime(11_000);
+    expect(await store.get('short')).toBeUndefined();
+    expect(await store.ttl('short')).toBeUndefined();
+  });
+
+  it('lists live keys by prefix', async () => {
+    await store.set('geoIdV4Map:a', {}, 60);
+    await store.set('geoIdV4Map:b', {}, 1);
+    await store.set('attomid:a', '1', 60);
+    vi.advanceTimersByTime(2_000);
+
+    expect(await store.keys('geoIdV4Map:')).toEqual(['geoIdV4Map:a']);
+  });
+});
+
+describe('MemoryCacheStore bounds', () => {
+  it('evicts the least recently used entry beyond maxEntries', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2, sweepIntervalMs: 0 });
+    await store.set('a', 1);
+    await store.set('b', 2);
+    await store.get('a'); // 'b' is now least recently used
+    await store.set('c', 3);
+
+    expect(await store.keys('')).toEqual(['a', 'c']);
+    expect(store.getStats()).toMatchObject({ entries: 2, evictions: 1, hits: 1 });
+  });
+
+  it('evicts entries to stay within maxBytes', async () => {
+    const store = new MemoryCacheStore({ maxBytes: 100, sweepIntervalMs: 0 });
+    await store.set('big1', 'x'.repeat(60));
+    await store.set('big2', 'x'.repeat(60));
+
+    expect(await store.get('big1')).toBeUndefined();
+    expect(store.getStats().bytes).toBeLessThanOrEqual(100);
+  });
+
+  it('sweeps expired entries that are never read again', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryCacheStore({ sweepIntervalMs: 1_000 });
+    await store.set('stale', 'value', 1);
+    await store.set('fresh', 'value', 60);
+
+    vi.advanceTimersByTime(2_000);
+
+    expect(store.getStats()).toMatchObject({ entries: 1, expirations: 1 });
+    vi.useRealTimers();
+  });
+
+  it('uses the default bounds and sweep interval when the environment values are malformed', async () => {
+    process.env.CACHE_MAX_ENTRIES = 'many';
+    process.env.CACHE_MAX_BYTES = '';
+    process.env.CACHE_SWEEP_INTERVAL_MS = 'soon';
+    vi.useFakeTimers();
+    try {
+      const store = new MemoryCacheStore();
+      await store.set('stale', 'value', 1);
+      await store.set('fresh', 'value', 3600);
+
+      vi.advanceTimersByTime(61_000);
+
+      expect(await store.get('fresh')).toBe('value');
+      expect(store.getStats()).toMatchObject({ entries: 1, evictions: 0, expirations: 1 });
+    } finally {
+      vi.useRealTimers();
+      delete process.env.CACHE_MAX_ENTRIES;
+      delete process.env.CACHE_MAX_BYTES;
+      delete process.env.CACHE_SWEEP_INTERVAL_MS;
+    }
+  });
+});
@@ -0,0 +1,316 @@
+// src/utils/cacheStore.ts
+import { Redis } from 'ioredis';
+import dotenv from 'dotenv';
+import { writeLog } from './logger.js';
+
+// Load environment variables
+dotenv.config();
+
+export interface CacheItem {
+  data: string | undefined; // Serialized JSON, so callers never share the cached object
+  timestamp: number;
+  ttl: number; // Milliseconds; Infinity for entries without expiry
+  size: number; // Approximate size in bytes (serialized JSON)
+}
+
+/**
+ * Counters and usage figures reported by a cache store
+ */
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;   // Live entries dropped to stay within the bounds
+  expirations: number; // Expired entries removed on read or by the sweep
+}
+
+/**
+ * Bounds and housekeeping settings for MemoryCacheStore
+ */
+export interface MemoryCacheOptions {
+  maxEntries?: number;
+  maxBytes?: number;
+  sweepIntervalMs?: number; // 0 disables the periodic expiry sweep
+}
+
+/**
+ * Storage backend used by caching.ts.
+ * Values must be JSON-serializable so that every backend can hold them.
+ */
+export interface CacheStore {
+  /** Backend name for diagnostics (e.g. 'memory', 'redis') */
+  readonly name: string;
+  get<T = any>(key: string): Promise<T | undefined>;
+  /**
+   * @param ttlSeconds Time to live; omit for entries that never expire
+   */
+  set(key: string, value: any, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * @returns Remaining TTL in seconds, -1 for entries without expiry, undefined if the key does not exist
+   */
+  ttl(key: string): Promise<number | undefined>;
+  /**
+   * @returns All live keys starting with the given prefix
+   */
+  keys(prefix: string): Promise<string[]>;
+  /**
+   * @returns Usage counters, for backends that track them
+   */
+  getStats?(): CacheStats;
+}
+
+/**
+ * Read a positive size or interval from the environment; a malformed bound
+ * would otherwise evict every entry on each set (NaN) or stop the sweep
+ */
+function envPositiveInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * Process-local cache backend (default).
+ * A least-recently-used map bounded by entry count and approximate byte size,
+ * with a periodic sweep that drops expired entries nobody reads again.
+ * Values are held as JSON, as in Redis, so every get returns a fresh copy.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private readonly items = new Map<string, CacheItem>(); // Iteration order = least to most recently used
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? envPositiveInt('CACHE_MAX_ENTRIES', 10000);
+    this.maxBytes = options.maxBytes ?? envPositiveInt('CACHE_MAX_BYTES', 64 * 1024 * 1024);
+    // CACHE_SWEEP_INTERVAL_MS=0 turns the sweep off
+    const sweepIntervalMs = options.sweepIntervalMs ??
+      (process.env.CACHE_SWEEP_INTERVAL_MS?.trim() === '0' ? 0 : envPositiveInt('CACHE_SWEEP_INTERVAL_MS', 60000));
+    if (sweepIntervalMs > 0) {
+      // unref() so the sweep never keeps the process alive on its own
+      setInterval(() => this.sweep(), sweepIntervalMs).unref();
+    }
+  }
+
+  private isExpired(item: CacheItem, now: number): boolean {
+    return now - item.timestamp > item.ttl;
+  }
+
+  private remove(key: string, item: CacheItem): void {
+    this.items.delete(key);
+    this.bytes -= item.size;
+  }
+
+  /**
+   * Remove every expired entry
+   * @returns Number of entries removed
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, item] of this.items) {
+      if (this.isExpired(item, now)) {
+        this.remove(key, item);
+        removed++;
+      }
+    }
+    this.expirations += removed;
+    return removed;
+  }
+
+  private evictOverflow(): void {
+    for (const [key, item] of this.items) {
+      if (this.items.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(key, item);
+      this.evictions++;
+    }
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const item = this.items.get(key);
+    if (!item) {
+      this.misses++;
+      return undefined;
+    }
+    if (this.isExpired(item, Date.now())) {
+      this.remove(key, item); // Remove expired item
+      this.expirations++;
+      this.misses++;
+      return undefined;
+    }
+    // Move to the most recently used position
+    this.items.delete(key);
+    this.items.set(key, item);
+    this.hits++;
+    return item.data === undefined ? undefined : JSON.parse(item.data) as T;
+  }
+
+  async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+    const existing = this.items.get(key);
+    if (existing) {
+      this.remove(key, existing);
+    }
+    const data = JSON.stringify(value);
+    const size = Buffer.byteLength(data ?? '') + key.length;
+    this.items.set(key, {
+      data,
+      timestamp: Date.now(),
+      ttl: ttlSeconds === undefined ? Infinity : ttlSeconds * 1000, // Convert to milliseconds
+      size
+    });
+    this.bytes += size;
+    this.evictOverflow();
+  }
+
+  async delete(key: string): Promise<void> {
+    const item = this.items.get(key);
+    if (item) {
+      this.remove(key, item);
+    }
+  }
+
+  async ttl(key: string): Promise<number | undefined> {
+    const item = this.items.get(key);
+    const now = Date.now();
+    if (!item || this.isExpired(item, now)) {
+      return undefined;
+    }
+    if (item.ttl === Infinity) {
+      return -1;
+    }
+    return Math.ceil((item.timestamp + item.ttl - now) / 1000);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const now = Date.now();
+    return [...this.items.entries()]
+      .filter(([key, item]) => key.startsWith(prefix) && !this.isExpired(item, now))
+      .map(([key]) => key);
+  }
+
+  getStats(): CacheStats {
+    return {
+      backend: this.name,
+      entries: this.items.size,
+      bytes: this.bytes,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+    };
+  }
+}
+
+/**
+ * Subset of Redis commands used by RedisCacheStore.
+ * Satisfied by ioredis, and small enough to fake in-process for tests.
+ */
+export interface RedisCommandClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  set(key: string, value: string, secondsToken: 'EX', seconds: number): Promise<unknown>;
+  del(key: string): Promise<number>;
+  ttl(key: string): Promise<number>;
+  scan(cursor: string, patternToken: 'MATCH', pattern: string, countToken: 'COUNT', count: number): Promise<[string, string[]]>;
+}
+
+/**
+ * Cache backend for any server speaking the Redis protocol (Redis, Valkey, KeyDB, ...).
+ * Keys are namespaced with a prefix so several deployments can share one server.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly namespace: string = 'attom-mcp:'
+  ) {}
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(this.namespace + key);
+    return raw === null ? undefined : JSON.parse(raw) as T;
+  }
+
+  async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+    const raw = JSON.stringify(value);
+    if (ttlSeconds === undefined) {
+      await this.client.set(this.namespace + key, raw);
+    } else {
+      await this.client.set(this.namespace + key, raw, 'EX', Math.max(1, Math.ceil(ttlSeconds)));
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.namespace + key);
+  }
+
+  async ttl(key: string): Promise<number | undefined> {
+    const ttl = await this.client.ttl(this.namespace + key);
+    return ttl === -2 ? undefined : ttl; // -2: key does not exist, -1: no expiry
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    // Escape glob metacharacters so the prefix is matched literally
+    const pattern = `${(this.namespace + prefix).replace(/[*?[\]\\]/g, '\\$&')}*`;
+    const result: string[] = [];
+    let cursor = '0';
+    do {
+      const [nextCursor, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+      result.push(...batch.map(key => key.slice(this.namespace.length)));
+      cursor = nextCursor;
+    } while (cursor !== '0');
+    return result;
+  }
+}
+
+let sharedStore: CacheStore | null = null;
+
+/**
+ * Build the cache store selected by CACHE_BACKEND ('memory' or 'redis').
+ * The Redis backend connects to REDIS_URL and namespaces keys with CACHE_KEY_PREFIX.
+ */
+export function createCacheStoreFromEnv(): CacheStore {
+  const backend = (process.env.CACHE_BACKEND ?? 'memory').toLowerCase();
+
+  if (backend === 'redis') {
+    const url = process.env.REDIS_URL ?? 'redis://127.0.0.1:6379';
+    const client = new Redis(url, { maxRetriesPerRequest: 2 });
+    client.on('error', (err: Error) => writeLog(`[CacheStore] Redis error: ${err.message}`, 'error'));
+    writeLog(`[CacheStore] Using Redis cache backend`);
+    return new RedisCacheStore(client, process.env.CACHE_KEY_PREFIX ?? 'attom-mcp:');
+  }
+
+  if (backend !== 'memory') {
+    writeLog(`[CacheStore] Unknown CACHE_BACKEND '${backend}', falling back to memory`, 'warn');
+  }
+  return new MemoryCacheStore();
+}
+
+/**
+ * Get the shared cache store, creating it from env config on first use
+ */
+export function getCacheStore(): CacheStore {
+  sharedStore ??= createCacheStoreFromEnv();
+  return sharedStore;
+}
+
+/**
+ * Replace the shared cache store (e.g. with a fake in tests)
+ */
+export function setCacheStore(store: CacheStore): void {
+  sharedStore = store;
+}
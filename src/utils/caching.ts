@@ -1,94 +1,270 @@
 // src/utils/caching.ts
 import { fetchAttom } from './fetcher.js';
+import { endpoints, getEndpointKeyByPath, EndpointConfig } from '../config/endpointConfig.js';
+import { CacheStats, CacheStore, MemoryCacheStore, getCacheStore } from './cacheStore.js';
+import { getPersistentStore, getPersistentTTL } from './persistentCache.js';
+import { writeLog } from './logger.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-export interface CacheItem {
-  data: any;
-  timestamp: number;
-  ttl: number;
-}
-
 export interface RequestCache {
   attomid?: string;
   geoIdV4?: Record<string, string>;
   [key: string]: any;
 }
 
-const requestCacheMap = new Map<string, RequestCache>();
-const dataCache = new Map<string, CacheItem>();
-
-// Endpoint-specific TTL configuration (in seconds)
-const endpointTTL: Record<string, number> = {
-  '/propertyapi/v1.0.0/property/detail': 86400, // 24 hours
-  '/propertyapi/v1.0.0/property/basicprofile': 86400, // 24 hours
-  '/propertyapi/v1.0.0/property/expandedprofile': 86400, // 24 hours
-  '/property/v2/salescomparables/propid/{propId}': 86400, // 24 hours
-  '/propertyapi/v1.0.0/assessment/detail': 86400, // 24 hours
-  '/propertyapi/v1.0.0/assessmenthistory/detail': 86400, // 24 hours
-  '/v4/neighborhood/community': 86400, // 24 hours
-  '/v4/school/profile': 86400, // 24 hours
-  '/v4/school/district': 86400, // 24 hours
-  '/v4/school/search': 86400, // 24 hours
-  '/v4/poi/search': 86400, // 24 hours
-  '/transportationnoise': 86400, // 24 hours
-};
-
-export function getRequestCache(cacheKey: string): RequestCache {
-  if (!requestCacheMap.has(cacheKey)) {
-    requestCacheMap.set(cacheKey, {});
+// Key prefixes separating the two kinds of entries inside a shared store
+const REQUEST_CACHE_PREFIX = 'reqcache:';
+const DATA_CACHE_PREFIX = 'data:';
+
+// Endpoints that opt out of the shared store (CacheConfig.useRedis = false) stay process-local
+const localStore = new MemoryCacheStore();
+
+function getDefaultTTL(): number {
+  return parseInt(process.env.CACHE_TTL_DEFAULT ?? '3600');
+}
+
+function findEndpointConfig(endpoint: string): EndpointConfig | undefined {
+  return endpoints[endpoint] ?? endpoints[getEndpointKeyByPath(endpoint) ?? ''];
+}
+
+/**
+ * Pick the store for an endpoint: the shared (env-selected) store unless the
+ * endpoint's CacheConfig disables it
+ * @param endpoint Endpoint key or API endpoint path; undefined for non-endpoint data
+ */
+function storeFor(endpoint?: string): CacheStore {
+  const config = endpoint ? findEndpointConfig(endpoint) : undefined;
+  return config && !config.cache.useRedis ? localStore : getCacheStore();
+}
+
+/**
+ * Run a cache operation so that a store outage (e.g. Redis down) degrades to a
+ * cache miss or a skipped write instead of failing the ATTOM query
+ * @param operation What is done, for the log line
+ * @param key Cache key
+ * @param run The store call
+ * @param fallback Result when the store fails
+ */
+async function withCacheFallback<T>(operation: string, key: string, run: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    writeLog(`[Cache] ${operation} ${key} failed, continuing without the cache: ${error instanceof Error ? error.message : String(error)}`, 'warn');
+    return fallback;
   }
-  return requestCacheMap.get(cacheKey)!;
 }
 
 /**
- * Get the TTL for a specific endpoint
- * @param endpoint The API endpoint path
- * @returns TTL in seconds
+ * Get the per-request scratch cache (attomid / geoIdV4 lookups) for a key.
+ * Changes must be written back with setRequestCache.
+ * @param cacheKey Request cache key
+ * @returns Cached entry, or an empty object if none exists
+ */
+export async function getRequestCache(cacheKey: string): Promise<RequestCache> {
+  const key = REQUEST_CACHE_PREFIX + cacheKey;
+  return (await withCacheFallback('Reading', key, () => getCacheStore().get<RequestCache>(key), undefined)) ?? {};
+}
+
+/**
+ * Persist the per-request scratch cache for a key
+ * @param cacheKey Request cache key
+ * @param cache Entry to store
+ */
+export async function setRequestCache(cacheKey: string, cache: RequestCache): Promise<void> {
+  const key = REQUEST_CACHE_PREFIX + cacheKey;
+  await withCacheFallback('Writing', key, () => getCacheStore().set(key, cache, getDefaultTTL()), undefined);
+}
+
+/**
+ * Get the TTL for a specific endpoint from its CacheConfig
+ * @param endpoint Endpoint key or configured API endpoint path
+ * @returns TTL in seconds (CACHE_TTL_DEFAULT for unconfigured endpoints)
  */
 export function getCacheTTL(endpoint: string): number {
-  // Parse the endpoint to handle path parameters
-  const parsedEndpoint = endpoint.replace(/\/[^/]+(?=\/|$)/g, '/{param}');
-  return endpointTTL[parsedEndpoint] ?? parseInt(process.env.CACHE_TTL_DEFAULT ?? '3600');
+  return findEndpointConfig(endpoint)?.cache.ttlSeconds ?? getDefaultTTL();
 }
 
 /**
  * Store data in cache with TTL
  * @param key Cache key
  * @param data Data to cache
- * @param endpoint API endpoint (for TTL determination)
+ * @param endpoint Endpoint key or API endpoint path (for TTL and store determination)
  */
-export function cacheData(key: string, data: any, endpoint: string): void {
-  const ttl = getCacheTTL(endpoint);
-  dataCache.set(key, {
-    data,
-    timestamp: Date.now(),
-    ttl: ttl * 1000 // Convert to milliseconds
-  });
+export async function cacheData(key: string, data: any, endpoint: string): Promise<void> {
+  await withCacheFallback('Writing', DATA_CACHE_PREFIX + key,
+    () => storeFor(endpoint).set(DATA_CACHE_PREFIX + key, data, getCacheTTL(endpoint)), undefined);
 }
 
 /**
  * Get data from cache if it exists and is not expired
  * @param key Cache key
+ * @param endpoint Endpoint key or API endpoint path the data was cached for
  * @returns Cached data or undefined if not found or expired
  */
-export function getCachedData(key: string): any {
-  if (!dataCache.has(key)) {
-    return undefined;
+export async function getCachedData(key: string, endpoint?: string): Promise<any> {
+  return withCacheFallback('Reading', DATA_CACHE_PREFIX + key, () => storeFor(endpoint).get(DATA_CACHE_PREFIX + key), undefined);
+}
+
+/**
+ * Remove a cached data entry
+ * @param key Cache key
+ * @param endpoint Endpoint key or API endpoint path the data was cached for
+ */
+export async function deleteCachedData(key: string, endpoint?: string): Promise<void> {
+  await withCacheFallback('Deleting', DATA_CACHE_PREFIX + key, () => storeFor(endpoint).delete(DATA_CACHE_PREFIX + key), undefined);
+}
+
+/**
+ * List cached data keys starting with a prefix
+ * @param prefix Cache key prefix (without the internal namespace)
+ * @param endpoint Endpoint key or API endpoint path the data was cached for
+ * @returns Matching cache keys
+ */
+export async function listCachedKeys(prefix: string, endpoint?: string): Promise<string[]> {
+  const keys = await withCacheFallback('Listing', DATA_CACHE_PREFIX + prefix, () => storeFor(endpoint).keys(DATA_CACHE_PREFIX + prefix), []);
+  return keys.map(key => key.slice(DATA_CACHE_PREFIX.length));
+}
+
+/**
+ * Report usage counters for the cache stores that track them
+ * @returns Stats for the shared store and the process-local store
+ */
+export function getCacheStats(): { shared?: CacheStats; local: CacheStats } {
+  return {
+    shared: getCacheStore().getStats?.(),
+    local: localStore.getStats(),
+  };
+}
+
+/**
+ * Get a durable lookup result (ATTOM ID / GeoID map) that survives restarts
+ * @param key Cache key
+ * @returns Persisted data or undefined if not found, expired or persistence is disabled
+ */
+export async function getPersistedData(key: string): Promise<any> {
+  return getPersistentStore()?.get(key);
+}
+
+/**
+ * Store a durable lookup result with the long persistent TTL
+ * @param key Cache key
+ * @param data Data to persist
+ */
+export async function persistData(key: string, data: any): Promise<void> {
+  await getPersistentStore()?.set(key, data, getPersistentTTL());
+}
+
+/**
+ * A property whose ATTOM ID has been resolved from its address
+ */
+export interface KnownProperty {
+  attomId: string;
+  address1: string;
+  address2: string;
+}
+
+/**
+ * List the properties whose ATTOM IDs are held in the persistent lookup cache
+ * @returns One entry per ATTOM ID (empty when persistence is disabled)
+ */
+export async function listKnownProperties(): Promise<KnownProperty[]> {
+  const store = getPersistentStore();
+  if (!store) return [];
+
+  const byId = new Map<string, KnownProperty>();
+  for (const key of await store.keys('attomid:')) {
+    const attomId = await store.get<string>(key);
+    // Keys are attomid:<address1>:<address2>:<normalization>
+    const [, address1, address2] = key.split(':');
+    if (attomId && !byId.has(attomId)) {
+      byId.set(attomId, { attomId, address1, address2 });
+    }
   }
-  
-  const cacheItem = dataCache.get(key)!;
-  const now = Date.now();
-  
-  // Check if cache is expired
-  if (now - cacheItem.timestamp > cacheItem.ttl) {
-    dataCache.delete(key); // Remove expired item
-    return undefined;
+  return [...byId.values()];
+}
+
+/**
+ * List the GeoIDs held in the persistent lookup cache
+ * @param subtype Geography subtype to list (e.g. 'N2', 'SB'); all subtypes when omitted
+ * @returns Distinct GeoIDs (empty when persistence is disabled)
+ */
+export async function listKnownGeoIds(subtype?: string): Promise<string[]> {
+  const store = getPersistentStore();
+  if (!store) return [];
+
+  const geoIds = new Set<string>();
+  for (const key of await store.keys('geoIdV4Map:')) {
+    const map = await store.get<Record<string, string>>(key) ?? {};
+    for (const [mapSubtype, value] of Object.entries(map)) {
+      if (subtype && mapSubtype !== subtype) continue;
+      // A subtype may hold several comma-separated GeoIDs
+      value.split(',').map(id => id.trim()).filter(Boolean).forEach(id => geoIds.add(id));
+    }
+  }
+  return [...geoIds];
+}
+
+/**
+ * Check whether a lookup key belongs to an address. Keys are matched on whole
+ * segments, e.g. attomid:<address1>:<address2>:<normalization>, so a longer
+ * address2 that merely starts with the given one is not a match
+ * @param key Lookup key without the store namespace
+ * @param address1 Street address
+ * @param address2 City, state, ZIP
+ */
+function isAddressLookupKey(key: string, address1: string, address2: string): boolean {
+  const segments = key.toLowerCase().split(':');
+  const addressAt = (index: number, length: number) => segments.length === length
+    && segments[index] === address1.toLowerCase()
+    && segments[index + 1] === address2.toLowerCase();
+
+  switch (segments[0]) {
+    case 'attomid':     // attomid:<address1>:<address2>:<normalization>
+    case 'geoidv4':     // geoIdV4:<address1>:<address2>:<subtype>
+      return addressAt(1, 4);
+    case 'geoidv4map':  // geoIdV4Map:<address1>:<address2>
+    case 'geoid':       // request cache geoid:<address1>:<address2>
+      return addressAt(1, 3);
+    case 'request':     // request cache request:<endpointKey>:<address1>:<address2>
+      return addressAt(2, 4);
+    default:
+      return false;
   }
-  
-  return cacheItem.data;
+}
+
+/**
+ * Remove every cached and persisted lookup for one address, so the next query
+ * re-resolves its ATTOM ID and GeoIDs from ATTOM
+ * @param address1 Street address as used in the lookup
+ * @param address2 City, state, ZIP as used in the lookup
+ * @returns Number of entries removed
+ */
+export async function purgeCachedAddress(address1: string, address2: string): Promise<number> {
+  let removed = 0;
+  const purge = async (store: CacheStore, namespace: string) => {
+    for (const key of await store.keys(namespace)) {
+      if (isAddressLookupKey(key.slice(namespace.length), address1, address2)) {
+        await store.delete(key);
+        removed++;
+      }
+    }
+  };
+
+  const persistentStore = getPersistentStore();
+  if (persistentStore) {
+    await purge(persistentStore, '');
+  }
+
+  // Endpoints with useRedis=false keep their entries in the process-local store
+  for (const store of [getCacheStore(), localStore]) {
+    await purge(store, DATA_CACHE_PREFIX);
+    await purge(store, REQUEST_CACHE_PREFIX);
+  }
+
+  return removed;
 }
 
 /**
@@ -96,12 +272,13 @@ export function getCachedData(key: string): any {
  * we can fetch it once, store in cache.
  */
 export async function preloadAddressMetadata(address1: string, address2: string, cacheKey: string) {
-  const cache = getRequestCache(cacheKey);
+  const cache = await getRequestCache(cacheKey);
   if (cache.attomid !== undefined && cache.geoIdV4 !== undefined) {
     return; // already loaded
   }
-  console.log(`[Prefetch] /property/detail => ${address1}, ${address2}`);
+  writeLog(`[Prefetch] /property/detail => ${address1}, ${address2}`, 'debug');
   const detail = await fetchAttom('/propertyapi/v1.0.0/property/detail', { address1, address2 });
   cache.attomid = detail?.property?.[0]?.identifier?.attomId?.toString() ?? '';
   cache.geoIdV4 = detail?.property?.[0]?.location?.geoIdV4 ?? {};
+  await setRequestCache(cacheKey, cache);
 }
@@ -0,0 +1,61 @@
+// src/utils/clientContext.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { RateLimitConfig } from '../config/endpointConfig.js';
+import { AuthError } from './errors.js';
+
+/**
+ * Authenticated MCP client a request is served for
+ */
+export interface ClientIdentity {
+  id: string;
+  allowedEndpoints?: string[]; // Endpoint keys the client may query; all endpoints when unset
+  quota?: RateLimitConfig;     // Upstream calls the client may make across all endpoints
+  tenant?: string;             // Tenant its calls are billed to by default; the default tenant when unset
+  tenants?: string[];          // Further tenants it may select per session or call
+  admin?: boolean;             // May use the admin tools when ATTOM_ADMIN_TOOLS is enabled
+}
+
+const storage = new AsyncLocalStorage<ClientIdentity>();
+const sessionStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function on behalf of a client. Everything it awaits (tool handlers,
+ * ATTOM fetches, log lines) sees the client through getCurrentClient().
+ */
+export function runAsClient<T>(client: ClientIdentity | undefined, fn: () => T): T {
+  return client ? storage.run(client, fn) : fn();
+}
+
+/**
+ * Get the client the current request is served for, if it was authenticated
+ */
+export function getCurrentClient(): ClientIdentity | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Throw a 403 AuthError if the current client may not query an endpoint
+ * @param endpointKey Endpoint key from configuration
+ */
+export function assertEndpointAllowed(endpointKey: string): void {
+  const client = getCurrentClient();
+  if (client?.allowedEndpoints && !client.allowedEndpoints.includes(endpointKey)) {
+    throw new AuthError(`Client ${client.id} is not allowed to query endpoint ${endpointKey}`, 403, { clientId: client.id, endpointKey });
+  }
+}
+
+/**
+ * Run a function as part of an MCP session, so the log records it writes are
+ * only forwarded to that session's client
+ * @param sessionId MCP session ID (HTTP transports)
+ */
+export function runInSession<T>(sessionId: string, fn: () => T): T {
+  return sessionStorage.run(sessionId, fn);
+}
+
+/**
+ * Get the ID of the MCP session the current request belongs to, if any
+ */
+export function getCurrentSessionId(): string | undefined {
+  return sessionStorage.getStore();
+}
@@ -3,16 +3,185 @@
  */
 
 /**
- * Error thrown when ATTOM API request fails
+ * Stable, machine-readable error codes returned to MCP clients
+ * - NOT_FOUND: ATTOM has no record for the request (e.g. no property at the address)
+ * - INVALID_PARAMS: missing, malformed or unknown parameters, endpoint kinds or tenants
+ * - QUOTA_EXCEEDED: a rate limit or daily quota is used up; retry after `retryAfterSeconds`
+ * - AUTH_ERROR: the client (or the server's ATTOM key) may not make the request
+ * - UPSTREAM_ERROR: ATTOM failed (5xx, unreachable or a malformed response)
+ * - ADDRESS_UNRESOLVABLE: the address could not be resolved to an ATTOM ID or GeoID
+ * - ADDRESS_AMBIGUOUS: the address matches several places; details.candidates lists them
+ * - TIMEOUT: ATTOM did not answer in time
+ * - INTERNAL_ERROR: anything else
+ */
+export type AttomErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_PARAMS'
+  | 'QUOTA_EXCEEDED'
+  | 'AUTH_ERROR'
+  | 'UPSTREAM_ERROR'
+  | 'ADDRESS_UNRESOLVABLE'
+  | 'ADDRESS_AMBIGUOUS'
+  | 'TIMEOUT'
+  | 'INTERNAL_ERROR';
+
+// Failures that may succeed when the same call is repeated later
+const RETRYABLE_CODES: AttomErrorCode[] = ['QUOTA_EXCEEDED', 'UPSTREAM_ERROR', 'TIMEOUT'];
+
+function codeForStatus(status?: number): AttomErrorCode {
+  if (status === undefined) return 'INTERNAL_ERROR';
+  if (status === 400 || status === 422) return 'INVALID_PARAMS';
+  if (status === 401 || status === 403) return 'AUTH_ERROR';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status === 429) return 'QUOTA_EXCEEDED';
+  if (status >= 500) return 'UPSTREAM_ERROR';
+  return 'INTERNAL_ERROR';
+}
+
+/**
+ * Error thrown when ATTOM API request fails. The base of all errors reported
+ * to MCP clients; the code is derived from the status unless a subclass sets it.
  */
 export class AttomApiError extends Error {
   status?: number;
   details?: any;
+  code: AttomErrorCode;
 
-  constructor(message: string, status?: number, details?: any) {
+  constructor(message: string, status?: number, details?: any, code: AttomErrorCode = codeForStatus(status)) {
     super(message);
     this.name = 'AttomApiError';
     this.status = status;
     this.details = details;
+    this.code = code;
+  }
+
+  /** Whether repeating the call later may succeed */
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+/**
+ * ATTOM has no record matching the request
+ */
+export class NotFoundError extends AttomApiError {
+  constructor(message: string, details?: any) {
+    super(message, 404, details, 'NOT_FOUND');
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Parameters, endpoint kind or tenant of a call are missing or invalid
+ */
+export class InvalidParamsError extends AttomApiError {
+  constructor(message: string, details?: any) {
+    super(message, 400, details, 'INVALID_PARAMS');
+    this.name = 'InvalidParamsError';
+  }
+}
+
+/**
+ * A rate limit or quota is used up; details.retryAfterSeconds says when to retry
+ */
+export class QuotaExceededError extends AttomApiError {
+  constructor(message: string, details?: any) {
+    super(message, 429, details, 'QUOTA_EXCEEDED');
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * The caller is not authenticated (401) or not allowed to make the call (403)
+ */
+export class AuthError extends AttomApiError {
+  constructor(message: string, status: 401 | 403 = 403, details?: any) {
+    super(message, status, details, 'AUTH_ERROR');
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * ATTOM failed: a 5xx response, no response at all, or a response that does not match its schema
+ */
+export class UpstreamError extends AttomApiError {
+  constructor(message: string, status = 502, details?: any) {
+    super(message, status, details, 'UPSTREAM_ERROR');
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * An address could not be resolved to the ATTOM ID or GeoID an endpoint needs
+ */
+export class AddressUnresolvableError extends AttomApiError {
+  constructor(message: string, details?: any) {
+    super(message, 422, details, 'ADDRESS_UNRESOLVABLE');
+    this.name = 'AddressUnresolvableError';
+  }
+}
+
+/**
+ * No normalized address is similar enough to the input to query ATTOM with;
+ * details.candidates lists the closest matches
+ */
+export class AddressAmbiguousError extends AttomApiError {
+  constructor(message: string, details?: any) {
+    super(message, 422, details, 'ADDRESS_AMBIGUOUS');
+    this.name = 'AddressAmbiguousError';
+  }
+}
+
+/**
+ * ATTOM did not answer within ATTOM_API_TIMEOUT_MS
+ */
+export class RequestTimeoutError extends AttomApiError {
+  constructor(message: string, details?: any) {
+    super(message, 504, details, 'TIMEOUT');
+    this.name = 'RequestTimeoutError';
   }
 }
+
+/**
+ * Error as reported to MCP clients
+ */
+export interface ErrorPayload {
+  code: AttomErrorCode;
+  message: string;
+  status?: number;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+  details?: any;
+}
+
+/**
+ * Wrap any thrown value in an AttomApiError (unchanged if it already is one)
+ */
+export function toAttomApiError(error: unknown): AttomApiError {
+  if (error instanceof AttomApiError) {
+    return error;
+  }
+  if (error instanceof Error) {
+    const wrapped = new AttomApiError(error.message, undefined, (error as any).details);
+    wrapped.stack = error.stack;
+    return wrapped;
+  }
+  return new AttomApiError(String(error));
+}
+
+/**
+ * Describe an error for an MCP tool result
+ */
+export function toErrorPayload(error: unknown): ErrorPayload {
+  const attomError = toAttomApiError(error);
+  const retryAfterSeconds = attomError.details?.retryAfterSeconds;
+  return {
+    code: attomError.code,
+    message: attomError.message,
+    ...(attomError.status !== undefined ? { status: attomError.status } : {}),
+    retryable: attomError.retryable,
+    ...(typeof retryAfterSeconds === 'number' ? { retryAfterSeconds } : {}),
+    ...(attomError.details !== undefined ? { details: attomError.details } : {}),
+  };
+}
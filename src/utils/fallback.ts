@@ -1,13 +1,14 @@
 // src/utils/fallback.ts
 import { fetchAttom } from './fetcher.js';
-import { getRequestCache, cacheData, getCachedData } from './caching.js';
+import { getRequestCache, setRequestCache, cacheData, getCachedData, getPersistedData, persistData } from './caching.js';
 import { writeLog } from './logger.js';
-import { normalizeAddressStringForAttom, NormalizedAddress } from './googlePlaces.js';
+import { currentSpan, withSpan } from './tracing.js';
+import { cacheLookups } from './metrics.js';
+import { normalizeAddressStringForAttom, NormalizedAddress } from './addressNormalizer.js';
+import { AttomApiError } from './errors.js';
+import { removeSecondaryUnit } from './uspsAddressParser.js';
 import dotenv from 'dotenv';
 
-// Import type only to avoid runtime dependency
-type AttomApiError = { statusCode: number };
-
 // Load environment variables
 dotenv.config();
 
@@ -15,6 +16,25 @@ dotenv.config();
 const MAX_FALLBACK_ATTEMPTS = parseInt(process.env.MAX_FALLBACK_ATTEMPTS ?? '3');
 const FALLBACK_DELAY_MS = parseInt(process.env.FALLBACK_DELAY_MS ?? '500');
 
+/**
+ * Mark the current lookup span as answered by one of the caches
+ * @param source Cache that held the value
+ */
+function markCacheHit(source: 'requestCache' | 'dataCache' | 'persistentCache'): void {
+  const span = currentSpan();
+  span.setCache('hit');
+  span.setAttribute('source', source);
+  cacheLookups.inc({ cache: 'lookup', result: 'hit' });
+}
+
+/**
+ * Mark the current lookup span as answered by the ATTOM API
+ */
+function markCacheMiss(): void {
+  currentSpan().setCache('miss');
+  cacheLookups.inc({ cache: 'lookup', result: 'miss' });
+}
+
 /**
  * Sleep utility for fallback delay
  * @param ms Milliseconds to sleep
@@ -24,7 +44,7 @@ export function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Normalize address using Google Places API
+ * Normalize address with the configured address normalizers
  * @param address1 Street address
  * @param address2 City, state, ZIP
  * @returns Normalized address or null if not found
@@ -43,7 +63,7 @@ export async function normalizeAddress(
  * Extracted to reduce cognitive complexity
  * @param address1 Street address
  * @param address2 City, state, ZIP
- * @param useGoogleNormalization Whether to use Google Places for address normalization
+ * @param useGoogleNormalization Whether to normalize the address (Google Places or the other configured normalizers)
  * @returns Object with normalized addresses
  */
 async function normalizeAddressIfEnabled(
@@ -60,10 +80,10 @@ async function normalizeAddressIfEnabled(
       if (normalized) {
         normalizedAddress1 = normalized.address1;
         normalizedAddress2 = normalized.address2;
-        writeLog(`[Google Places] Normalized address: ${normalized.formattedAddress}, address1: ${normalizedAddress1}, address2: ${normalizedAddress2}`);
+        writeLog(`[Address Normalization] Normalized address by ${normalized.provider}: ${normalized.formattedAddress}, address1: ${normalizedAddress1}, address2: ${normalizedAddress2}`);
       }
     } catch (error: unknown) {
-      writeLog(`[Google Places] Address normalization failed, using original address. Error: ${error instanceof Error ? error.message : String(error)}`);
+      writeLog(`[Address Normalization] Address normalization failed, using original address. Error: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
@@ -203,6 +223,9 @@ async function fetchPropertyDetailForGeoIdV4(attomId: string): Promise<any> {
       
     } catch (error: unknown) {
       writeLog(`[Fallback] Attempt ${attempts + 1} failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof AttomApiError && !error.retryable) {
+        break; // e.g. no property at the address: asking again gives the same answer
+      }
     }
     
     // Only sleep if we're going to retry
@@ -220,7 +243,7 @@ export async function fallbackGeoIdV4FromAttomId(
   cacheKey: string
 ): Promise<Record<string, string>> {
   // Type assertion to help TypeScript understand our cache structure
-  const cache = getRequestCache(cacheKey) as GeoIdCache;
+  const cache = await getRequestCache(cacheKey) as GeoIdCache;
   
   // Initialize geoIdV4 if it doesn't exist
   if (!cache.geoIdV4) {
@@ -234,10 +257,11 @@ export async function fallbackGeoIdV4FromAttomId(
   
   // Check data cache first
   const cacheDataKey = `geoIdV4:${attomId}`;
-  const cachedGeoIdV4 = getCachedData(cacheDataKey);
+  const cachedGeoIdV4 = await getCachedData(cacheDataKey);
   if (cachedGeoIdV4) {
     // Merge with existing cache
     Object.assign(cache.geoIdV4, cachedGeoIdV4);
+    await setRequestCache(cacheKey, cache);
     return cache.geoIdV4;
   }
   
@@ -252,7 +276,8 @@ export async function fallbackGeoIdV4FromAttomId(
     // Cache the result by merging with existing cache
     if (typeof geoIdV4 === 'object' && geoIdV4 !== null) {
       Object.assign(cache.geoIdV4, geoIdV4);
-      cacheData(cacheDataKey, cache.geoIdV4, '/propertyapi/v1.0.0/property/detail');
+      await setRequestCache(cacheKey, cache);
+      await cacheData(cacheDataKey, cache.geoIdV4, '/propertyapi/v1.0.0/property/detail');
     }
   }
   
@@ -272,7 +297,7 @@ export async function fallbackSchoolByGeoIdV4(geoIdV4: string): Promise<any> {
   
   // Check data cache first
   const cacheDataKey = `school:geoIdV4:${geoIdV4}`;
-  const cachedSchool = getCachedData(cacheDataKey);
+  const cachedSchool = await getCachedData(cacheDataKey, '/v4/school/profile');
   if (cachedSchool) {
     return cachedSchool;
   }
@@ -295,7 +320,7 @@ async function fetchSchoolProfileData(geoIdV4: string): Promise<any> {
       const schoolData = await fetchAttom('/v4/school/profile', { geoIdV4 });
       if (schoolData?.status === 'ok') {
         // Cache the result
-        cacheData(`school:geoIdV4:${geoIdV4}`, schoolData, '/v4/school/profile');
+        await cacheData(`school:geoIdV4:${geoIdV4}`, schoolData, '/v4/school/profile');
         return schoolData;
       }
     } catch (error: unknown) {
@@ -328,7 +353,7 @@ export async function fallbackCommunityByGeoIdV4(geoIdV4: string): Promise<any>
   
   // Check data cache first
   const cacheDataKey = `community:${geoIdV4}`;
-  const cachedData = getCachedData(cacheDataKey);
+  const cachedData = await getCachedData(cacheDataKey, '/v4/neighborhood/community');
   if (cachedData) {
     return cachedData;
   }
@@ -359,7 +384,7 @@ export async function fallbackCommunityByGeoIdV4(geoIdV4: string): Promise<any>
   
   // Cache the result
   if (communityData) {
-    cacheData(cacheDataKey, communityData, '/v4/neighborhood/community');
+    await cacheData(cacheDataKey, communityData, '/v4/neighborhood/community');
   }
   
   return communityData;
@@ -439,6 +464,9 @@ async function fetchBasicProfileWithRetry(
       }
     } catch (error: unknown) {
       writeLog(`[Fallback] Attempt ${attempts + 1} failed for basicprofile: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof AttomApiError && !error.retryable) {
+        break;
+      }
     }
     if (attempts < MAX_FALLBACK_ATTEMPTS - 1) {
       await sleep(FALLBACK_DELAY_MS);
@@ -453,7 +481,7 @@ async function fetchBasicProfileWithRetry(
  * @param address2 City, state, ZIP
  * @param subtype GeoID subtype (e.g., 'CO', 'ZI', 'N2')
  * @param cacheKey Cache key for request cache
- * @param useGoogleNormalization Whether to use Google Places for address normalization
+ * @param useGoogleNormalization Whether to normalize the address (Google Places or the other configured normalizers)
  * @returns GeoID V4 value or empty string if not found
  */
 /**
@@ -478,15 +506,38 @@ interface AttomIdCache {
   [key: string]: any;
 }
 
+/**
+ * ATTOM ID found for an address
+ */
+export interface AttomIdMatch {
+  attomId: string;       // Empty if no record matched
+  unitDropped: boolean;  // The unit had no record, so this is the building's ATTOM ID
+}
+
+/**
+ * Look up the GeoIDs (by subtype) of an address, traced as one step of the tool call
+ */
 export async function fallbackGeoIdV4SubtypeCached(
   address1: string,
   address2: string,
   subtype: string,
   cacheKey: string,
   useGoogleNormalization: boolean = true
+): Promise<Record<string, string>> {
+  return withSpan('fallbackGeoIdV4FromAddress', { subtype }, () =>
+    lookupGeoIdV4Map(address1, address2, subtype, cacheKey, useGoogleNormalization)
+  );
+}
+
+async function lookupGeoIdV4Map(
+  address1: string,
+  address2: string,
+  subtype: string,
+  cacheKey: string,
+  useGoogleNormalization: boolean
 ): Promise<Record<string, string>> { // Return the whole map
   // Type assertion to help TypeScript understand our cache structure
-  const cache = getRequestCache(cacheKey) as GeoIdCache;
+  const cache = await getRequestCache(cacheKey) as GeoIdCache;
   
   // Initialize geoIdV4 if it doesn't exist
   if (!cache.geoIdV4) {
@@ -496,21 +547,36 @@ export async function fallbackGeoIdV4SubtypeCached(
   // If we already have the full geoIdV4 map populated in cache, return it
   if (Object.keys(cache.geoIdV4).length > 0) {
     writeLog(`[Fallback] Using cached GeoID map for key: ${cacheKey}`);
+    markCacheHit('requestCache');
     return cache.geoIdV4;
   }
   
   // Check data cache for the *entire map* first (adjust cache key)
   const mapCacheDataKey = `geoIdV4Map:${address1}:${address2}`;
-  const cachedGeoIdMap = getCachedData(mapCacheDataKey);
+  const cachedGeoIdMap = await getCachedData(mapCacheDataKey, '/propertyapi/v1.0.0/property/buildingpermits');
   if (cachedGeoIdMap && typeof cachedGeoIdMap === 'object' && Object.keys(cachedGeoIdMap).length > 0) {
     writeLog(`[Fallback] Using data-cached GeoID map for address: ${address1}, ${address2}`);
+    markCacheHit('dataCache');
     cache.geoIdV4 = cachedGeoIdMap; // Populate request cache
+    await setRequestCache(cacheKey, cache);
     return cachedGeoIdMap;
   }
+
+  // Then the durable store, which survives restarts and deploys
+  const persistedGeoIdMap = await getPersistedData(mapCacheDataKey);
+  if (persistedGeoIdMap && typeof persistedGeoIdMap === 'object' && Object.keys(persistedGeoIdMap).length > 0) {
+    writeLog(`[Fallback] Using persisted GeoID map for address: ${address1}, ${address2}`);
+    markCacheHit('persistentCache');
+    cache.geoIdV4 = persistedGeoIdMap;
+    await setRequestCache(cacheKey, cache);
+    await cacheData(mapCacheDataKey, persistedGeoIdMap, '/propertyapi/v1.0.0/property/buildingpermits');
+    return persistedGeoIdMap;
+  }
   
   writeLog(`[Fallback] calling /property/buildingpermits => geoIdV4 for subtype: ${subtype}`); // Reverted endpoint log
+  markCacheMiss();
   
-  // Try to normalize the address using Google Places if enabled
+  // Try to normalize the address if enabled
   const { normalizedAddress1, normalizedAddress2 } = await normalizeAddressIfEnabled(
     address1, 
     address2, 
@@ -540,15 +606,17 @@ export async function fallbackGeoIdV4SubtypeCached(
   
   // Cache individual geoId values for future use
   // We know cache.geoIdV4 is defined because we initialized it at the beginning of the function
-  Object.entries(cache.geoIdV4).forEach(([key, value]) => {
+  for (const [key, value] of Object.entries(cache.geoIdV4)) {
     if (value) { // Only cache non-empty values
-      cacheData(`geoIdV4:${address1}:${address2}:${key}`, value, '/propertyapi/v1.0.0/property/buildingpermits'); // Corrected cache source endpoint
+      await cacheData(`geoIdV4:${address1}:${address2}:${key}`, value, '/propertyapi/v1.0.0/property/buildingpermits'); // Corrected cache source endpoint
     }
-  });
+  }
 
   // Cache the entire map if found
   if (Object.keys(cache.geoIdV4).length > 0) {
-     cacheData(mapCacheDataKey, cache.geoIdV4, '/propertyapi/v1.0.0/property/buildingpermits'); // Corrected cache source endpoint
+     await setRequestCache(cacheKey, cache);
+     await cacheData(mapCacheDataKey, cache.geoIdV4, '/propertyapi/v1.0.0/property/buildingpermits'); // Corrected cache source endpoint
+     await persistData(mapCacheDataKey, cache.geoIdV4);
   }
 
   // Return the potentially populated map (could be empty if API failed or had no GeoIDs)
@@ -564,17 +632,52 @@ export async function fallbackGeoIdV4SubtypeCached(
  * @param address1 The first line of the address
  * @param address2 The second line of the address (city, state, zip)
  * @param cacheKey Key for caching the result
- * @param useGoogleNormalization Whether to use Google Places for address normalization
- * @returns The found ATTOM ID string, or empty string if not found
+ * @param useGoogleNormalization Whether to normalize the address (Google Places or the other configured normalizers)
+ * @returns The found ATTOM ID (empty string if not found), flagged when it is the building's rather than the unit's
  */
 export async function fallbackAttomIdFromAddressCached(
   address1: string,
   address2: string,
   cacheKey: string,
   useGoogleNormalization: boolean = true
-): Promise<string> {
+): Promise<AttomIdMatch> {
+  return withSpan('fallbackAttomIdFromAddress', undefined, () =>
+    lookupAttomIdFromAddress(address1, address2, cacheKey, useGoogleNormalization)
+  );
+}
+
+function attomIdCacheKey(address1: string, address2: string, useGoogleNormalization: boolean): string {
+  return `attomid:${address1}:${address2}:${useGoogleNormalization ? 'google' : 'default'}`;
+}
+
+/**
+ * Find the ATTOM ID of an address through the building permits and basic profile endpoints
+ */
+async function fetchAttomIdViaHelpers(address1: string, address2: string): Promise<string | null> {
+  // Attempt ATTOM ID extraction using helpers with retry logic
+  const candidateResponses = [
+    await fetchBuildingPermitsWithRetry(address1, address2),
+    await fetchBasicProfileWithRetry(address1, address2),
+  ];
+
+  for (const response of candidateResponses) {
+    const attomId = extractAttomIdFromResponse(response);
+    if (attomId) {
+      writeLog(`[fallbackAttomIdFromAddressCached] Found ATTOM ID via helper`);
+      return attomId;
+    }
+  }
+  return null;
+}
+
+async function lookupAttomIdFromAddress(
+  address1: string,
+  address2: string,
+  cacheKey: string,
+  useGoogleNormalization: boolean
+): Promise<AttomIdMatch> {
   // Type assertion for cache structure - use dedicated AttomIdCache interface
-  const cache = getRequestCache(cacheKey) as AttomIdCache;
+  const cache = await getRequestCache(cacheKey) as AttomIdCache;
   
   // Initialize attomid if it doesn't exist in cache
   if (!cache.attomid) {
@@ -584,21 +687,36 @@ export async function fallbackAttomIdFromAddressCached(
   // If we already have the attomid in cache, use it
   if (cache.attomid) {
     writeLog(`[fallbackAttomIdFromAddressCached] Using cached ATTOM ID: ${cache.attomid}`);
-    return cache.attomid;
+    markCacheHit('requestCache');
+    return { attomId: cache.attomid, unitDropped: false };
   }
   
   // Check data cache first
-  const cacheDataKey = `attomid:${address1}:${address2}:${useGoogleNormalization ? 'google' : 'default'}`;
-  const cachedAttomId = getCachedData(cacheDataKey);
+  const cacheDataKey = attomIdCacheKey(address1, address2, useGoogleNormalization);
+  const cachedAttomId = await getCachedData(cacheDataKey);
   if (cachedAttomId) {
     writeLog(`[fallbackAttomIdFromAddressCached] Using data-cached ATTOM ID: ${cachedAttomId}`);
+    markCacheHit('dataCache');
     cache.attomid = cachedAttomId;
-    return cachedAttomId;
+    await setRequestCache(cacheKey, cache);
+    return { attomId: cachedAttomId, unitDropped: false };
+  }
+
+  // Then the durable store, which survives restarts and deploys
+  const persistedAttomId = await getPersistedData(cacheDataKey);
+  if (persistedAttomId) {
+    writeLog(`[fallbackAttomIdFromAddressCached] Using persisted ATTOM ID: ${persistedAttomId}`);
+    markCacheHit('persistentCache');
+    cache.attomid = persistedAttomId;
+    await setRequestCache(cacheKey, cache);
+    await cacheData(cacheDataKey, persistedAttomId, 'fallback-helpers');
+    return { attomId: persistedAttomId, unitDropped: false };
   }
   
   writeLog(`[fallbackAttomIdFromAddressCached] Looking up ATTOM ID for address: ${address1}, ${address2}`);
+  markCacheMiss();
   
-  // Try to normalize the address using Google Places if enabled
+  // Try to normalize the address if enabled
   const normalizedAddressResult = await normalizeAddressIfEnabled(
     address1, 
     address2, 
@@ -611,24 +729,35 @@ export async function fallbackAttomIdFromAddressCached(
   
   writeLog(`[fallbackAttomIdFromAddressCached] Using normalized addresses: ${normalizedAddress1}, ${normalizedAddress2}`);
   
-  // Attempt ATTOM ID extraction using helpers with retry logic
-  const candidateResponses = [
-    await fetchBuildingPermitsWithRetry(normalizedAddress1, normalizedAddress2),
-    await fetchBasicProfileWithRetry(normalizedAddress1, normalizedAddress2),
-  ];
+  const attomId = await fetchAttomIdViaHelpers(normalizedAddress1, normalizedAddress2);
+  if (attomId) {
+    cache.attomid = attomId;
+    await setRequestCache(cacheKey, cache);
+    await cacheData(cacheDataKey, attomId, 'fallback-helpers');
+    await persistData(cacheDataKey, attomId);
+    return { attomId, unitDropped: false };
+  }
 
-  for (const response of candidateResponses) {
-    const attomId = extractAttomIdFromResponse(response);
-    if (attomId) {
-      writeLog(`[fallbackAttomIdFromAddressCached] Found ATTOM ID via helper`);
-      cache.attomid = attomId;
-      cacheData(cacheDataKey, attomId, 'fallback-helpers');
-      return attomId;
+  // A unit ATTOM does not know falls back to its building. The building's ID is
+  // cached under the building's address only, never as the unit's ATTOM ID
+  const buildingAddress1 = removeSecondaryUnit(normalizedAddress1);
+  if (buildingAddress1) {
+    writeLog(`[fallbackAttomIdFromAddressCached] No ATTOM ID for the unit, retrying with the building address: ${buildingAddress1}, ${normalizedAddress2}`);
+    currentSpan().setAttribute('unitDropped', true);
+
+    const buildingKey = attomIdCacheKey(buildingAddress1, normalizedAddress2, useGoogleNormalization);
+    const buildingAttomId = await getCachedData(buildingKey)
+      || await getPersistedData(buildingKey)
+      || await fetchAttomIdViaHelpers(buildingAddress1, normalizedAddress2);
+    if (buildingAttomId) {
+      await cacheData(buildingKey, buildingAttomId, 'fallback-helpers');
+      await persistData(buildingKey, buildingAttomId);
+      return { attomId: buildingAttomId, unitDropped: true };
     }
   }
   
   // If we reach here, no ATTOM ID was found
   writeLog('[fallbackAttomIdFromAddressCached] Failed to find ATTOM ID after trying all endpoints');
-  cacheData(cacheDataKey, '', 'fallback-failure'); // Cache failure
-  return '';
+  await cacheData(cacheDataKey, '', 'fallback-failure'); // Cache failure
+  return { attomId: '', unitDropped: false };
 }
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('undici', () => ({
+  fetch: vi.fn(),
+}));
+
+import { fetch } from 'undici';
+import { fetchAttom } from './fetcher.js';
+import { NotFoundError, UpstreamError } from './errors.js';
+
+const fetchMock = vi.mocked(fetch);
+
+const response = (status: number, body: unknown) => ({
+  ok: status < 400,
+  status,
+  statusText: status < 400 ? 'OK' : 'Error',
+  headers: new Headers(),
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+}) as any;
+
+describe('fetchAttom errors', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.ATTOM_API_TIMEOUT_MS;
+  });
+
+  it('reports lookups without a match as NOT_FOUND without retrying', async () => {
+    fetchMock.mockResolvedValue(response(400, { status: { code: 1, msg: 'SuccessWithoutResult' } }));
+
+    const error = await fetchAttom('/propertyapi/v1.0.0/property/basicprofile', { address1: 'x', address2: 'y' }, { retries: 2 })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ code: 'NOT_FOUND', retryable: false });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries upstream 5xx errors and reports them as retryable', async () => {
+    fetchMock.mockResolvedValue(response(503, 'unavailable'));
+
+    const error = await fetchAttom('/propertyapi/v1.0.0/avm/snapshot', { attomid: '1' }, { retries: 1 }).catch(err => err);
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ code: 'UPSTREAM_ERROR', status: 503, retryable: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the default timeout when ATTOM_API_TIMEOUT_MS is malformed', async () => {
+    process.env.ATTOM_API_TIMEOUT_MS = '30s';
+    fetchMock.mockResolvedValue(response(200, { status: { code: 0 }, property: [] }));
+
+    await expect(fetchAttom('/propertyapi/v1.0.0/avm/snapshot', { attomid: '2' })).resolves.toMatchObject({ property: [] });
+    expect(fetchMock.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+  });
+});
@@ -1,7 +1,22 @@
 // src/utils/fetcher.ts
 import { URLSearchParams } from 'url';
 import { fetch } from 'undici'; // Use installed undici fetch
-import { writeLog } from './logger.js'; // Import from new logger module
+import { createLogger } from './logger.js';
+import { acquireClientQuota, acquireRateLimit } from './rateLimiter.js';
+import { getCurrentClient } from './clientContext.js';
+import { getCurrentTenant, recordTenantUsage } from './tenants.js';
+import { withSpan } from './tracing.js';
+import { upstreamDuration, upstreamRequests, upstreamRetries } from './metrics.js';
+import {
+  AttomApiError,
+  AuthError,
+  InvalidParamsError,
+  NotFoundError,
+  QuotaExceededError,
+  RequestTimeoutError,
+  UpstreamError,
+} from './errors.js';
+import { DEFAULT_RATE_LIMIT, endpoints, getEndpointKeyByPath } from '../config/endpointConfig.js';
 import dotenv from 'dotenv';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -17,18 +32,19 @@ if (!process.env.ATTOM_API_KEY) {
   );
 }
 
+const logger = createLogger('fetcher');
+
 /**
  * Helper function to build the request URL
  */
 function buildRequestUrl(baseUrl: string, path: string, method: string, query: Record<string, any>): string {
   const qs = new URLSearchParams();
   
-  console.log('[buildRequestUrl] Raw query parameters:', JSON.stringify(query));
-  
+  logger.debug('Raw query parameters', { query });
+
   for (const [k, v] of Object.entries(query)) {
     if (v !== undefined && v !== null) {
       qs.append(k, String(v));
-      console.log(`[buildRequestUrl] Adding parameter: ${k}=${String(v)}`);
     }
   }
 
@@ -36,33 +52,72 @@ function buildRequestUrl(baseUrl: string, path: string, method: string, query: R
   if (method === 'GET' && qs.toString()) {
     url += `?${qs}`;
   }
-  
-  console.log('[buildRequestUrl] FULL URL:', url);
+
+  logger.debug(`Full URL: ${url}`);
   return url;
 }
 
+// ATTOM answers lookups without a match with this status message (HTTP 200 or 400)
+const NO_RESULT_MSG = /SuccessWithoutResult/i;
+
+/**
+ * Map an unsuccessful HTTP response to the matching AttomApiError
+ */
+function errorForResponse(res: any, url: string, body: string): AttomApiError {
+  const message = `Attom API Error: ${res.status} ${res.statusText}`;
+  const details = { url, status: res.status, statusText: res.statusText, body };
+  if (res.status === 404 || NO_RESULT_MSG.test(body)) {
+    return new NotFoundError(`No ATTOM record matches the request (${res.status} ${res.statusText})`, details);
+  }
+  if (res.status === 401 || res.status === 403) {
+    return new AuthError(`${message}. Check the ATTOM API key.`, res.status, details);
+  }
+  if (res.status === 429) {
+    const retryAfterSeconds = Number(res.headers?.get?.('retry-after')) || undefined;
+    return new QuotaExceededError(message, { ...details, retryAfterSeconds });
+  }
+  if (res.status === 408 || res.status === 504) {
+    return new RequestTimeoutError(message, details);
+  }
+  if (res.status >= 500) {
+    return new UpstreamError(message, res.status, details);
+  }
+  if (res.status === 400) {
+    return new InvalidParamsError(message, details);
+  }
+  return new AttomApiError(message, res.status, details);
+}
+
+/**
+ * Map a fetch that produced no response (network failure, timeout) to an AttomApiError
+ */
+function errorForFailedFetch(err: unknown, url: string, timeoutMs: number): AttomApiError {
+  if (err instanceof AttomApiError) {
+    return err;
+  }
+  const name = (err as Error | undefined)?.name;
+  if (name === 'TimeoutError' || name === 'AbortError') {
+    return new RequestTimeoutError(`ATTOM API did not answer within ${timeoutMs} ms`, { url, timeoutMs });
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return new UpstreamError(`ATTOM API request failed: ${message}`, 502, { url });
+}
+
 /**
  * Helper function to handle response processing
  */
 async function processResponse(res: any, url: string): Promise<Record<string, any>> {
   if (!res.ok) {
-    const errorText = await res.text();
-    const errorPayload = {
-      message: `Attom API Error: ${res.status} ${res.statusText}`,
-      url,
-      status: res.status,
-      statusText: res.statusText,
-      body: errorText
-    };
-    const fetchError = new Error(errorPayload.message);
-    (fetchError as any).details = errorPayload;
-    throw fetchError;
+    throw errorForResponse(res, url, await res.text());
   }
   
   const data = await res.json() as Record<string, any>;
   // Check for API-level errors in the response
   if (data.status && data.status.code !== 0 && data.status.code !== '0') {
-    throw new Error(`ATTOM API error for ${url}: ${data.status.code} - ${data.status.msg ?? 'Unknown error'}`);
+    if (NO_RESULT_MSG.test(String(data.status.msg))) {
+      throw new NotFoundError(`No ATTOM record matches the request (${data.status.msg})`, { url, attomStatus: data.status });
+    }
+    throw new UpstreamError(`ATTOM API error for ${url}: ${data.status.code} - ${data.status.msg ?? 'Unknown error'}`, 502, { url, attomStatus: data.status });
   }
   return data;
 }
@@ -70,13 +125,9 @@ async function processResponse(res: any, url: string): Promise<Record<string, an
 /**
  * Helper function to handle the final error after all retries fail
  */
-function handleFinalError(err: unknown, maxRetries: number, url: string): never {
-  if (err instanceof Error) {
-    err.message = `Failed after ${maxRetries + 1} attempts. Last URL: ${url}. Error: ${err.message}`;
-    throw err;
-  } else {
-    throw new Error(`Failed after ${maxRetries + 1} attempts. Last URL: ${url}. Error details: ${JSON.stringify(err)}`);
-  }
+function handleFinalError(err: AttomApiError, attempts: number, url: string): never {
+  err.message = `Failed after ${attempts} attempt${attempts === 1 ? '' : 's'}. Last URL: ${url}. Error: ${err.message}`;
+  throw err;
 }
 
 /**
@@ -118,8 +169,8 @@ function substitutePathParams(
     } else {
       // If we cannot resolve the placeholder, replace with '-' to satisfy ATTOM V2 path format
       finalPath = finalPath.replace(placeholder, '-');
-      writeLog(
-        `[Fetcher] Placeholder ${placeholder} not provided; substituting '-' in final path.`
+      logger.debug(
+        `Placeholder ${placeholder} not provided; substituting '-' in final path.`
       );
     }
   }
@@ -127,6 +178,21 @@ function substitutePathParams(
   return { path: finalPath, remainingQuery: remaining };
 }
 
+/**
+ * Count one upstream call and its latency (without any retry backoff)
+ */
+function recordUpstreamMetrics(endpointKey: string, status: string, startedAt: number): void {
+  upstreamRequests.inc({ endpoint: endpointKey, status });
+  upstreamDuration.observe({ endpoint: endpointKey }, (performance.now() - startedAt) / 1000);
+}
+
+// AbortSignal.timeout throws for anything but a non-negative integer, so a
+// malformed ATTOM_API_TIMEOUT_MS must not reach it
+function getTimeoutMs(): number {
+  const timeoutMs = Number(process.env.ATTOM_API_TIMEOUT_MS ?? '30000');
+  return Number.isInteger(timeoutMs) && timeoutMs > 0 ? timeoutMs : 30000;
+}
+
 /**
  * Main function to fetch data from ATTOM API with retry logic
  */
@@ -139,61 +205,79 @@ export async function fetchAttom(
     retries?: number;
   }
 ) {
+  // Rate limits are tracked per configured endpoint; unconfigured paths get the default limit
+  let rateLimitKey = path;
   try {
     // Handle POI endpoint path redirection
     // This ensures compatibility between old (/v4/poi/search) and new (/v4/neighborhood/poi) paths
-    console.log(`[Fetcher] Original endpoint path: ${path}`);
-    console.log(`[Fetcher] Query parameters: ${JSON.stringify(query)}`);
-    
+    logger.debug(`Original endpoint path: ${path}`, { query });
+
     if (path === '/v4/poi/search') {
-      console.log('[Fetcher] Redirecting POI request from /v4/poi/search to /v4/neighborhood/poi');
+      logger.debug('Redirecting POI request from /v4/poi/search to /v4/neighborhood/poi');
       path = '/v4/neighborhood/poi';
     }
+    rateLimitKey = getEndpointKeyByPath(path) ?? path;
 
     // Substitute any {placeholder} tokens in the endpoint
     const substitution = substitutePathParams(path, query);
     path = substitution.path;
     query = substitution.remainingQuery;
     
-    console.log(`[Fetcher] Final endpoint path after substitution: ${path}`);
+    logger.debug(`Final endpoint path after substitution: ${path}`);
   } catch (error) {
-    console.error('[Fetcher] Error in path redirection/substitution:', error);
+    logger.error('Error in path redirection/substitution', { error });
   }
-  const baseUrl = process.env.ATTOM_API_BASE_URL ?? 'https://api.gateway.attomdata.com';
+  // Credentials and gateway come from the tenant the call is billed to (ATTOM_API_KEY by default)
+  const tenant = getCurrentTenant();
+  const baseUrl = tenant.baseUrl;
   const method = overrides?.method ?? 'GET';
   const finalHeaders = {
     Accept: 'application/json',
-    apikey: process.env.ATTOM_API_KEY ?? 'DEMO_KEY',
+    apikey: tenant.apiKey,
     ...overrides?.headers,
   };
 
   const url = buildRequestUrl(baseUrl, path, method, query);
   const maxRetries = overrides?.retries ?? Number(process.env.ATTOM_API_RETRIES ?? '0');
+  const timeoutMs = getTimeoutMs();
   
-  let lastErr: unknown = null;
-  
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  const rateLimit = endpoints[rateLimitKey]?.rateLimit ?? DEFAULT_RATE_LIMIT;
+  const client = getCurrentClient();
+
+  for (let attempt = 0; ; attempt++) {
+    // Every attempt counts against the quota (the calling client's first); over-limit errors are not retried
+    if (client?.quota) {
+      await acquireClientQuota(client.id, client.quota);
+    }
+    await acquireRateLimit(rateLimitKey, rateLimit, finalHeaders.apikey);
+    const startedAt = performance.now();
+    let status = 'network_error';
     try {
-      writeLog(`[Fetcher] ${method} ${url}`);
-      const res = await fetch(url, { method, headers: finalHeaders });
-      return await processResponse(res, url);
+      logger.info(`${method} ${url}`, { endpointKey: rateLimitKey, tenantId: tenant.id, attempt: attempt + 1 });
+      const data = await withSpan('fetchAttom', { endpointKey: rateLimitKey, path, tenantId: tenant.id, attempt: attempt + 1 }, async span => {
+        const res = await fetch(url, { method, headers: finalHeaders, signal: AbortSignal.timeout(timeoutMs) })
+          .catch(err => { throw errorForFailedFetch(err, url, timeoutMs); });
+        status = String(res.status);
+        span.setAttribute('status', res.status);
+        return processResponse(res, url);
+      });
+      recordTenantUsage(tenant.id, rateLimitKey, false);
+      recordUpstreamMetrics(rateLimitKey, status, startedAt);
+      return data;
     } catch (err) {
-      lastErr = err;
-      writeLog(`[Fetcher] Attempt ${attempt + 1} failed for ${method} ${url}: ${err instanceof Error ? err.message : String(err)}`);
-      
-      if (attempt < maxRetries) {
-        // Exponential backoff
-        const delay = 500 * Math.pow(2, attempt);
-        await new Promise(resolve => setTimeout(resolve, delay));
+      const error = errorForFailedFetch(err, url, timeoutMs);
+      recordTenantUsage(tenant.id, rateLimitKey, true);
+      recordUpstreamMetrics(rateLimitKey, status, startedAt);
+      logger.warn(`Attempt ${attempt + 1} failed for ${method} ${url}`, { error, code: error.code });
+
+      // Not-found, invalid-parameter and auth errors would fail the same way again
+      if (attempt >= maxRetries || !error.retryable) {
+        return handleFinalError(error, attempt + 1, url);
       }
+      upstreamRetries.inc({ endpoint: rateLimitKey });
+      // Exponential backoff
+      const delay = 500 * Math.pow(2, attempt);
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
-
-  // If all retries failed
-  if (lastErr) {
-    return handleFinalError(lastErr, maxRetries, url);
-  } else {
-    // Should not happen if loop runs at least once, but handle defensively
-    throw new Error(`Fetch failed for ${url} with no specific error captured.`);
-  }
 }
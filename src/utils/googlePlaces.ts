@@ -1,6 +1,11 @@
 // src/utils/googlePlaces.ts
 import fetch from 'node-fetch';
 import dotenv from 'dotenv';
+import { writeLog } from './logger.js';
+import { withSpan } from './tracing.js';
+import { googlePlacesRequests } from './metrics.js';
+import type { AddressNormalizer, NormalizedAddress } from './addressNormalizer.js';
+import { addressSimilarity, getSecondaryUnit, removeSecondaryUnit } from './uspsAddressParser.js';
 
 // Load environment variables
 dotenv.config();
@@ -53,23 +58,13 @@ export interface PlaceDetailsResponse {
   status: string;
 }
 
-/**
- * Interface for normalized address for ATTOM API
- */
-export interface NormalizedAddress {
-  address1: string;
-  address2: string;
-  latitude?: number;
-  longitude?: number;
-  formattedAddress?: string;
-}
-
 /**
  * Get autocomplete suggestions from Google Places API
  * @param input User input for address search
+ * @param signal Aborts the request
  * @returns Array of place predictions
  */
-export async function getPlaceSuggestions(input: string): Promise<PlacePrediction[]> {
+export async function getPlaceSuggestions(input: string, signal?: AbortSignal): Promise<PlacePrediction[]> {
   if (!GOOGLE_MAPS_API_KEY) {
     throw new Error('Google Maps API key is not configured');
   }
@@ -77,17 +72,23 @@ export async function getPlaceSuggestions(input: string): Promise<PlacePredictio
   const url = `https://maps.googleapis.com/maps/api/place/autocomplete/json?input=${encodeURIComponent(input)}&types=address&key=${GOOGLE_MAPS_API_KEY}`;
   
   try {
-    const response = await fetch(url);
-    const data = await response.json() as AutocompleteResponse;
+    const data = await withSpan('googlePlaces.autocomplete', undefined, async span => {
+      const response = await fetch(url, { signal });
+      const body = await response.json() as AutocompleteResponse;
+      span.setAttribute('status', body.status);
+      googlePlacesRequests.inc({ operation: 'autocomplete', status: body.status });
+      return body;
+    });
     
     if (data.status !== 'OK') {
-      console.error(`Google Places API error: ${data.status}`);
+      writeLog(`[Google Places] Autocomplete error: ${data.status}`, 'error');
       return [];
     }
     
     return data.predictions;
   } catch (error) {
-    console.error('Error fetching place suggestions:', error);
+    googlePlacesRequests.inc({ operation: 'autocomplete', status: 'network_error' });
+    writeLog(`[Google Places] Error fetching place suggestions: ${error instanceof Error ? error.message : String(error)}`, 'error');
     return [];
   }
 }
@@ -95,9 +96,10 @@ export async function getPlaceSuggestions(input: string): Promise<PlacePredictio
 /**
  * Get place details from Google Places API
  * @param placeId Google Place ID
+ * @param signal Aborts the request
  * @returns Place details
  */
-export async function getPlaceDetails(placeId: string): Promise<PlaceDetailsResponse | null> {
+export async function getPlaceDetails(placeId: string, signal?: AbortSignal): Promise<PlaceDetailsResponse | null> {
   if (!GOOGLE_MAPS_API_KEY) {
     throw new Error('Google Maps API key is not configured');
   }
@@ -105,17 +107,23 @@ export async function getPlaceDetails(placeId: string): Promise<PlaceDetailsResp
   const url = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=address_component,formatted_address,geometry&key=${GOOGLE_MAPS_API_KEY}`;
   
   try {
-    const response = await fetch(url);
-    const data = await response.json() as PlaceDetailsResponse;
+    const data = await withSpan('googlePlaces.details', undefined, async span => {
+      const response = await fetch(url, { signal });
+      const body = await response.json() as PlaceDetailsResponse;
+      span.setAttribute('status', body.status);
+      googlePlacesRequests.inc({ operation: 'details', status: body.status });
+      return body;
+    });
     
     if (data.status !== 'OK') {
-      console.error(`Google Places API error: ${data.status}`);
+      writeLog(`[Google Places] Place details error: ${data.status}`, 'error');
       return null;
     }
     
     return data;
   } catch (error) {
-    console.error('Error fetching place details:', error);
+    googlePlacesRequests.inc({ operation: 'details', status: 'network_error' });
+    writeLog(`[Google Places] Error fetching place details: ${error instanceof Error ? error.message : String(error)}`, 'error');
     return null;
   }
 }
@@ -123,10 +131,11 @@ export async function getPlaceDetails(placeId: string): Promise<PlaceDetailsResp
 /**
  * Normalize address from Google Places for ATTOM API
  * @param placeId Google Place ID
+ * @param signal Aborts the request
  * @returns Normalized address for ATTOM API
  */
-export async function normalizeAddressForAttom(placeId: string): Promise<NormalizedAddress | null> {
-  const placeDetails = await getPlaceDetails(placeId);
+export async function normalizeAddressForAttom(placeId: string, signal?: AbortSignal): Promise<NormalizedAddress | null> {
+  const placeDetails = await getPlaceDetails(placeId, signal);
   
   if (!placeDetails?.result) {
     return null;
@@ -143,6 +152,11 @@ export async function normalizeAddressForAttom(placeId: string): Promise<Normali
     component.types.includes('route')
   )?.long_name ?? '';
   
+  // Apartment / suite number, without designator
+  const subpremise = result.address_components.find(component =>
+    component.types.includes('subpremise')
+  )?.long_name;
+  
   // Extract city, state, and zip
   const city = result.address_components.find(component => 
     component.types.includes('locality')
@@ -157,7 +171,7 @@ export async function normalizeAddressForAttom(placeId: string): Promise<Normali
   )?.long_name ?? '';
   
   // Format address1 and address2 for ATTOM API
-  const address1 = `${streetNumber} ${streetName}`.trim();
+  const address1 = [streetNumber, streetName, subpremise ? `UNIT ${subpremise}` : ''].filter(Boolean).join(' ');
   const address2 = `${city}, ${state} ${zip}`.trim();
   
   return {
@@ -165,31 +179,65 @@ export async function normalizeAddressForAttom(placeId: string): Promise<Normali
     address2,
     latitude: result.geometry.location.lat,
     longitude: result.geometry.location.lng,
-    formattedAddress: result.formatted_address
+    formattedAddress: result.formatted_address,
+    provider: googlePlacesNormalizer.name,
+    // A street-level match is reliable; a route or locality match is a guess
+    confidence: streetNumber ? 0.9 : 0.5
   };
 }
 
 /**
- * Normalize address from string for ATTOM API
- * @param address Full address string
- * @returns Normalized address for ATTOM API
+ * Carry the unit of the input over to a Google match: Google often drops it,
+ * or returns only the bare subpremise number without the input's designator
+ * @param candidate Google match
+ * @param address Input address
  */
-export async function normalizeAddressStringForAttom(address: string): Promise<NormalizedAddress | null> {
-  // First get suggestions
-  const suggestions = await getPlaceSuggestions(address);
-  
-  if (!suggestions || suggestions.length === 0) {
-    // Fallback to simple splitting if no suggestions
-    const parts = address.split(',');
-    if (parts.length >= 2) {
-      return {
-        address1: parts[0].trim(),
-        address2: parts.slice(1).join(',').trim()
-      };
-    }
-    return null;
+function withInputUnit(candidate: NormalizedAddress, address: string): NormalizedAddress {
+  const unit = getSecondaryUnit(address);
+  if (!unit) {
+    return candidate;
   }
-  
-  // Use the first suggestion
-  return normalizeAddressForAttom(suggestions[0].place_id);
+  const building = removeSecondaryUnit(candidate.address1);
+  const address1 = `${building ?? candidate.address1} ${unit}`;
+  return {
+    ...candidate,
+    address1,
+    // Google's formatted address already names the unit if it matched it
+    formattedAddress: building ? candidate.formattedAddress : `${address1}, ${candidate.address2}`,
+  };
+}
+
+/**
+ * Candidate address from an autocomplete prediction, not yet confirmed by place details
+ */
+function predictionToCandidate(prediction: PlacePrediction): NormalizedAddress {
+  return {
+    address1: prediction.structured_formatting.main_text,
+    address2: prediction.structured_formatting.secondary_text.replace(/,\s*USA$/, ''),
+    formattedAddress: prediction.description,
+    provider: googlePlacesNormalizer.name,
+    confidence: 0.5,
+  };
 }
+
+/**
+ * Address normalizer backed by Google Places autocomplete and details;
+ * available when GOOGLE_MAPS_API_KEY is set. The prediction closest to the
+ * input is resolved with place details, the others are returned as candidates.
+ */
+export const googlePlacesNormalizer: AddressNormalizer = {
+  name: 'google',
+  isAvailable: () => !!GOOGLE_MAPS_API_KEY,
+  async normalize(address, signal) {
+    const suggestions = await getPlaceSuggestions(address, signal);
+    if (suggestions.length === 0) {
+      return [];
+    }
+    const ranked = [...suggestions].sort((a, b) =>
+      addressSimilarity(address, b.description) - addressSimilarity(address, a.description)
+    );
+    const best = await normalizeAddressForAttom(ranked[0].place_id, signal);
+    return [best ?? predictionToCandidate(ranked[0]), ...ranked.slice(1).map(predictionToCandidate)]
+      .map(candidate => withInputUnit(candidate, address));
+  },
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createLogger, LogRecord, RotatingFileSink, setLogSinks, writeLog } from './logger.js';
+import { runAsClient } from './clientContext.js';
+
+describe('structured logger', () => {
+  let records: LogRecord[];
+
+  beforeEach(() => {
+    records = [];
+    setLogSinks([{ write: record => records.push(record) }]);
+  });
+
+  afterEach(() => {
+    setLogSinks(undefined);
+    delete process.env.LOG_LEVEL;
+  });
+
+  it('writes records at or above LOG_LEVEL with module and client', () => {
+    process.env.LOG_LEVEL = 'warn';
+    const logger = createLogger('fetcher');
+
+    logger.info('dropped');
+    runAsClient({ id: 'acme' }, () => logger.child('retry').warn('kept', { attempt: 2 }));
+    writeLog('[HttpServer] Session closed', 'error');
+
+    expect(records).toEqual([
+      expect.objectContaining({ level: 'warn', module: 'fetcher.retry', msg: 'kept', clientId: 'acme', attempt: 2 }),
+      expect.objectContaining({ level: 'error', module: 'HttpServer', msg: 'Session closed' }),
+    ]);
+  });
+
+  it('redacts API keys, street addresses and owner names', () => {
+    const logger = createLogger('test');
+
+    logger.info(`GET https://api.example.com/avm?address1=4529+Winona+Ct&apikey=${process.env.ATTOM_API_KEY}-extra`);
+    logger.info('Params: {"address1":"4529 Winona Ct","address2":"Denver, CO 80212"}');
+    logger.info('Resolved 4529 Winona Ct to an ATTOM ID', {
+      headers: { Authorization: 'Bearer client-secret' },
+      owner: { owner1: { fullName: 'JANE DOE' } },
+    });
+
+    const output = JSON.stringify(records);
+    expect(output).not.toMatch(/Winona|Denver|client-secret|JANE DOE/);
+    expect(records[2].msg).toBe('Resolved [REDACTED] to an ATTOM ID');
+  });
+
+  it('rotates the log file once it exceeds its size', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attom-log-'));
+    const file = path.join(dir, 'server.log');
+    const sink = new RotatingFileSink(file, 100, 2);
+    const record = { time: '', level: 'info', msg: '' } as LogRecord;
+
+    for (let i = 0; i < 4; i++) {
+      sink.write(record, `${String(i).repeat(60)}\n`);
+    }
+
+    expect(fs.readFileSync(file, 'utf8')).toBe(`${'3'.repeat(60)}\n`);
+    expect(fs.readFileSync(`${file}.1`, 'utf8')).toBe(`${'2'.repeat(60)}\n`);
+    expect(fs.readFileSync(`${file}.2`, 'utf8')).toBe(`${'1'.repeat(60)}\n`);
+    expect(fs.existsSync(`${file}.3`)).toBe(false);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
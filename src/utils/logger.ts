@@ -1,49 +1,310 @@
+// src/utils/logger.ts
 import fs from 'fs';
 import path from 'path';
+import dotenv from 'dotenv';
+import { getCurrentClient, getCurrentSessionId } from './clientContext.js';
+import { getCurrentTraceId } from './tracing.js';
 
-// Determine log file path relative to project root using process.cwd()
-// const projectRoot = path.resolve(__dirname, '..', '..'); // Old method
-const logFilePath = path.join(process.cwd(), 'debug.log'); // Use current working directory
+// Load environment variables
+dotenv.config();
 
-// Initialize log file (optional, creates if not exists)
-try {
-  if (!fs.existsSync(logFilePath)) {
-    fs.writeFileSync(logFilePath, `${new Date().toISOString()} - --- Log file initialized at: ${logFilePath} ---\n`);
-  } else {
-     // Optionally add a restart marker
-     fs.appendFileSync(logFilePath, `${new Date().toISOString()} - --- Logger Initialized ---\n`);
+/**
+ * Log levels, least to most severe
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * One log line as written by the sinks (serialized as a single JSON line)
+ */
+export interface LogRecord {
+  time: string;      // ISO timestamp
+  level: LogLevel;
+  module?: string;   // e.g. "fetcher" or "httpServer"
+  msg: string;
+  clientId?: string; // Authenticated MCP client the record was written for
+  sessionId?: string; // MCP session (HTTP transports) the record was written for
+  traceId?: string;  // Correlation ID of the tool call the record was written for
+  [field: string]: unknown;
+}
+
+/**
+ * Destination of log records. Sinks must never write to stdout, which carries
+ * the MCP protocol in stdio mode.
+ */
+export interface LogSink {
+  write(record: LogRecord, line: string): void;
+}
+
+/**
+ * Leveled logger bound to a module
+ */
+export interface Logger {
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+  /** Logger for a sub-module, e.g. createLogger('cache').child('redis') logs as "cache.redis" */
+  child(module: string): Logger;
+}
+
+/**
+ * Writes every record to stderr
+ */
+export class StderrSink implements LogSink {
+  write(_record: LogRecord, line: string): void {
+    process.stderr.write(line);
   }
-} catch (err) {
-  console.error("Failed to initialize log file:", err);
 }
 
 /**
- * Writes a message to the debug log file.
- * @param message The message to log.
- * @param level Optional log level (e.g., 'error', 'warn', 'info')
+ * Appends records to a file, rotating it to `<file>.1` ... `<file>.<maxFiles>` once it exceeds maxBytes
  */
-export function writeLog(message: string, level?: string) {
-  const logLine = `${new Date().toISOString()} - ${message}\n`;
-
-  // 1. Attempt to write directly to stderr
-  try {
-    process.stderr.write(logLine); 
-  } catch (stderrErr) {
-    // If stderr fails (unlikely), log that failure to console.error
-    console.error("Failed to write log to stderr:", stderrErr);
-    console.error('Original log message:', message);
-  }
-
-  // 2. Attempt to write to file (keep as secondary)
-  try {
-    fs.appendFileSync(logFilePath, logLine);
-  } catch (fileErr) {
-    // If file writing fails, log *that specific* failure to stderr (or console.error if stderr failed)
-    const fileErrMsg = `Failed to write log to file ${logFilePath}: ${fileErr instanceof Error ? fileErr.message : String(fileErr)}\n`;
+export class RotatingFileSink implements LogSink {
+  private size: number;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxBytes: number = parseInt(process.env.LOG_FILE_MAX_BYTES ?? '10485760'),
+    private readonly maxFiles: number = parseInt(process.env.LOG_FILE_MAX_FILES ?? '5')
+  ) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  write(_record: LogRecord, line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.filePath, line);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    // Shift file.N-1 -> file.N, ..., file -> file.1; the oldest falls off the end
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      const from = `${this.filePath}.${index}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${this.filePath}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      fs.rmSync(this.filePath, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are secrets, addresses or owner names
+const SENSITIVE_KEYS = [
+  'apikey', 'api_key', 'authorization', 'x-api-key', 'token', 'password', 'secret',
+  'address', 'address1', 'address2', 'oneLine', 'line1', 'line2', 'mailingAddressOneLine', 'formatted_address',
+  'fullName', 'firstNameAndMi', 'firstName', 'middleName', 'lastName', 'ownerName', 'owner1', 'owner2', 'owner3', 'owner4',
+];
+const SENSITIVE_KEY_SET = new Set(SENSITIVE_KEYS.map(key => key.toLowerCase()));
+const keyAlternation = SENSITIVE_KEYS.map(key => key.replace(/[-_]/g, '[-_]?')).join('|');
+
+// "key":"value" inside JSON embedded in a message
+const JSON_PAIR = new RegExp(`("(?:${keyAlternation})"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"`, 'gi');
+// key=value in query strings, cache keys and "Adding parameter" lines
+const QUERY_PAIR = new RegExp(`\\b((?:${keyAlternation})=)[^&\\s,"]+`, 'gi');
+const BEARER = /\b(Bearer\s+)[^\s"]+/gi;
+// "4529 Winona Ct" and similar street addresses in free text
+const STREET_ADDRESS = /\b\d{1,6}\s+(?:[A-Za-z0-9.'-]+\s+){0,4}(?:St|Street|Ave|Avenue|Rd|Road|Blvd|Boulevard|Dr|Drive|Ct|Court|Ln|Lane|Way|Pl|Place|Ter|Terrace|Cir|Circle|Pkwy|Parkway|Hwy|Highway|Sq|Square|Trl|Trail)\b\.?/gi;
+
+function isRedactionEnabled(): boolean {
+  return process.env.LOG_REDACT !== 'false';
+}
+
+const registeredSecrets = new Set<string>();
+
+/**
+ * Mask a secret (e.g. a tenant's API key) wherever it appears in log output
+ */
+export function registerLogSecret(secret: string): void {
+  if (secret.length >= 8) {
+    registeredSecrets.add(secret);
+  }
+}
+
+// Configured secrets are masked wherever they appear, whatever the field name
+function knownSecrets(): string[] {
+  return [process.env.ATTOM_API_KEY, process.env.GOOGLE_MAPS_API_KEY, ...registeredSecrets]
+    .filter((secret): secret is string => !!secret && secret.length >= 8);
+}
+
+/**
+ * Mask API keys, street addresses and owner names in a log message
+ */
+export function redactText(text: string): string {
+  if (!isRedactionEnabled()) {
+    return text;
+  }
+  let result = text;
+  for (const secret of knownSecrets()) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result
+    .replace(JSON_PAIR, `$1"${REDACTED}"`)
+    .replace(QUERY_PAIR, `$1${REDACTED}`)
+    .replace(BEARER, `$1${REDACTED}`)
+    .replace(STREET_ADDRESS, REDACTED);
+}
+
+/**
+ * Mask sensitive fields (by name) and sensitive text (by pattern) in structured log fields
+ */
+export function redactFields(value: unknown, depth = 0): unknown {
+  if (!isRedactionEnabled() || depth > 8) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactFields(item, depth + 1));
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY_SET.has(key.toLowerCase()) && item !== null && item !== undefined ? REDACTED : redactFields(item, depth + 1),
+    ]));
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Sinks and dispatch
+// ---------------------------------------------------------------------------
+
+let sinks: LogSink[] | undefined;
+
+function getSinks(): LogSink[] {
+  if (!sinks) {
+    sinks = [new StderrSink()];
+    if (process.env.LOG_FILE) {
+      try {
+        sinks.push(new RotatingFileSink(path.resolve(process.env.LOG_FILE)));
+      } catch (err) {
+        process.stderr.write(`Failed to open log file ${process.env.LOG_FILE}: ${err instanceof Error ? err.message : String(err)}\n`);
+      }
+    }
+  }
+  return sinks;
+}
+
+/**
+ * Add a sink next to the default stderr (and LOG_FILE) sinks
+ * @returns Function that removes the sink again
+ */
+export function addLogSink(sink: LogSink): () => void {
+  getSinks().push(sink);
+  return () => {
+    sinks = getSinks().filter(existing => existing !== sink);
+  };
+}
+
+/**
+ * Replace all sinks (mainly for tests); undefined restores the defaults on next use
+ */
+export function setLogSinks(replacement: LogSink[] | undefined): void {
+  sinks = replacement;
+}
+
+/**
+ * Minimum level written, from LOG_LEVEL (default info)
+ */
+export function getMinLogLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return level && LOG_LEVELS.includes(level) ? level : 'info';
+}
+
+/**
+ * Whether a record of the given level passes a minimum level
+ */
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel = getMinLogLevel()): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+function emit(level: LogLevel, module: string | undefined, msg: string, fields?: Record<string, unknown>): void {
+  if (!isLevelEnabled(level)) {
+    return;
+  }
+  const client = getCurrentClient();
+  const traceId = getCurrentTraceId();
+  const sessionId = getCurrentSessionId();
+  const record: LogRecord = {
+    time: new Date().toISOString(),
+    level,
+    ...(module ? { module } : {}),
+    msg: redactText(msg),
+    ...(client ? { clientId: client.id } : {}),
+    ...(sessionId ? { sessionId } : {}),
+    ...(traceId ? { traceId } : {}),
+    ...(fields ? redactFields(fields) as Record<string, unknown> : {}),
+  };
+  const line = `${JSON.stringify(record)}\n`;
+  for (const sink of getSinks()) {
     try {
-      process.stderr.write(fileErrMsg);
-    } catch {
-      console.error(fileErrMsg); // Final fallback
+      sink.write(record, line);
+    } catch (err) {
+      // A failing sink must not take the others (or the caller) down
+      try {
+        process.stderr.write(`Log sink failed: ${err instanceof Error ? err.message : String(err)}\n`);
+      } catch {
+        // Nothing left to report to
+      }
     }
   }
 }
+
+/**
+ * Create a logger for a module
+ * @param module Module name recorded on every line
+ */
+export function createLogger(module: string): Logger {
+  return {
+    debug: (msg, fields) => emit('debug', module, msg, fields),
+    info: (msg, fields) => emit('info', module, msg, fields),
+    warn: (msg, fields) => emit('warn', module, msg, fields),
+    error: (msg, fields) => emit('error', module, msg, fields),
+    child: (childModule: string) => createLogger(`${module}.${childModule}`),
+  };
+}
+
+/**
+ * Writes a message to the log sinks.
+ * A leading "[Module]" tag becomes the record's module.
+ * @param message The message to log.
+ * @param level Optional log level ('debug', 'info', 'warn' or 'error'; default 'info')
+ */
+export function writeLog(message: string, level?: string) {
+  const match = /^\[([^\]]+)\]\s*(.*)$/s.exec(message);
+  const logLevel = LOG_LEVELS.includes(level as LogLevel) ? level as LogLevel : 'info';
+  emit(logLevel, match?.[1], match ? match[2] : message);
+}
+
+/**
+ * Route console.log / console.info / console.debug (of this code or its
+ * dependencies) to the logger so nothing but protocol messages reaches stdout
+ */
+export function protectStdout(): void {
+  const logger = createLogger('console');
+  const format = (args: unknown[]) => args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ');
+  console.log = (...args: unknown[]) => logger.info(format(args));
+  console.info = (...args: unknown[]) => logger.info(format(args));
+  console.debug = (...args: unknown[]) => logger.debug(format(args));
+}
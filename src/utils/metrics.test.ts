@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { Counter, Histogram } from './metrics.js';
+
+describe('metrics', () => {
+  it('renders counters with one series per label combination', () => {
+    const counter = new Counter('test_calls_total', 'Calls', ['endpoint', 'status']);
+
+    counter.inc({ endpoint: 'avmSnapshot', status: '200' });
+    counter.inc({ endpoint: 'avmSnapshot', status: '200' });
+    counter.inc({ endpoint: 'saleDetail', status: 'network_error' });
+
+    expect(counter.render()).toBe([
+      '# HELP test_calls_total Calls',
+      '# TYPE test_calls_total counter',
+      'test_calls_total{endpoint="avmSnapshot",status="200"} 2',
+      'test_calls_total{endpoint="saleDetail",status="network_error"} 1',
+    ].join('\n'));
+  });
+
+  it('renders histograms with cumulative buckets', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Latency', ['endpoint'], [0.1, 1]);
+
+    histogram.observe({ endpoint: 'avmSnapshot' }, 0.05);
+    histogram.observe({ endpoint: 'avmSnapshot' }, 0.5);
+    histogram.observe({ endpoint: 'avmSnapshot' }, 2);
+
+    expect(histogram.render().split('\n').slice(2)).toEqual([
+      'test_duration_seconds_bucket{endpoint="avmSnapshot",le="0.1"} 1',
+      'test_duration_seconds_bucket{endpoint="avmSnapshot",le="1"} 2',
+      'test_duration_seconds_bucket{endpoint="avmSnapshot",le="+Inf"} 3',
+      'test_duration_seconds_sum{endpoint="avmSnapshot"} 2.55',
+      'test_duration_seconds_count{endpoint="avmSnapshot"} 3',
+    ]);
+  });
+});
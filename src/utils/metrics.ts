@@ -0,0 +1,179 @@
+// src/utils/metrics.ts
+
+/**
+ * Label values of one time series, e.g. { endpoint: 'avmSnapshot', status: '200' }
+ */
+export type MetricLabels = Record<string, string>;
+
+// Upstream latencies range from cached-at-the-gateway to slow report endpoints
+const DEFAULT_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels, extra?: MetricLabels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  return entries.length > 0
+    ? `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+    : '';
+}
+
+// Series are keyed by their label values in label-name order
+function seriesKey(labelNames: string[], labels: MetricLabels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''));
+}
+
+function pickLabels(labelNames: string[], labels: MetricLabels): MetricLabels {
+  return Object.fromEntries(labelNames.map(name => [name, labels[name] ?? '']));
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string;
+  reset(): void;
+}
+
+const registry: Metric[] = [];
+
+/**
+ * Monotonically increasing count, one series per label combination
+ */
+export class Counter implements Metric {
+  private readonly series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(readonly name: string, private readonly help: string, private readonly labelNames: string[] = []) {
+    registry.push(this);
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const entry = this.series.get(key) ?? { labels: pickLabels(this.labelNames, labels), value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  /** Current value of one series (0 if it was never incremented) */
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(this.labelNames, labels))?.value ?? 0;
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Distribution of observed values over cumulative buckets
+ */
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly labelNames: string[] = [],
+    private readonly buckets: number[] = DEFAULT_BUCKETS_SECONDS
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    const entry = this.series.get(key)
+      ?? { labels: pickLabels(this.labelNames, labels), counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Server metrics
+// ---------------------------------------------------------------------------
+
+/** Upstream ATTOM calls by endpoint key and HTTP status ("network_error" when no response arrived) */
+export const upstreamRequests = new Counter(
+  'attom_upstream_requests_total', 'ATTOM API calls by endpoint key and HTTP status', ['endpoint', 'status']
+);
+
+/** Latency of upstream ATTOM calls by endpoint key */
+export const upstreamDuration = new Histogram(
+  'attom_upstream_request_duration_seconds', 'ATTOM API call latency in seconds', ['endpoint']
+);
+
+/** Failed ATTOM calls that were retried */
+export const upstreamRetries = new Counter(
+  'attom_upstream_retries_total', 'ATTOM API calls retried after a failure', ['endpoint']
+);
+
+/** Outcomes of the address fallback strategies */
+export const fallbackOutcomes = new Counter(
+  'attom_fallback_total', 'Address fallback lookups by strategy and outcome (success / failure)', ['strategy', 'outcome']
+);
+
+/** Cache reads: the response cache and the ATTOM ID / GeoID lookup caches */
+export const cacheLookups = new Counter(
+  'attom_cache_lookups_total', 'Cache reads by cache (response / lookup) and result (hit / miss)', ['cache', 'result']
+);
+
+/** Queries answered by joining an identical in-flight request */
+export const inflightDedupHits = new Counter(
+  'attom_inflight_dedup_hits_total', 'Queries that joined an identical in-flight request', ['endpoint']
+);
+
+/** Google Places API calls by operation and API status */
+export const googlePlacesRequests = new Counter(
+  'attom_google_places_requests_total', 'Google Places API calls by operation and status', ['operation', 'status']
+);
+
+/** Address normalization attempts by provider and outcome */
+export const addressNormalizations = new Counter(
+  'attom_address_normalizations_total', 'Address normalizations by provider and outcome (success / ambiguous / no_match / error)', ['provider', 'outcome']
+);
+
+/**
+ * Render every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  return `${registry.map(metric => metric.render()).join('\n')}\n`;
+}
+
+/**
+ * Clear all series (mainly for tests)
+ */
+export function resetMetrics(): void {
+  for (const metric of registry) {
+    metric.reset();
+  }
+}
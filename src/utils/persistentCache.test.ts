@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getPersistentTTL, JsonLinesCacheStore, setPersistentStore } from './persistentCache.js';
+import { cacheData, getCachedData, getPersistedData, persistData, purgeCachedAddress } from './caching.js';
+import { endpoints } from '../config/endpointConfig.js';
+
+describe('JsonLinesCacheStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attom-cache-'));
+    filePath = path.join(dir, 'ids.jsonl');
+  });
+
+  afterEach(() => {
+    delete process.env.PERSISTENT_CACHE_PATH;
+    delete process.env.PERSISTENT_CACHE_MAX_ENTRIES;
+    delete process.env.PERSISTENT_CACHE_TTL_SECONDS;
+    setPersistentStore(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('survives a restart', async () => {
+    const store = new JsonLinesCacheStore(filePath);
+    await store.set('attomid:1 Main St:Denver, CO:google', '123', 3600);
+    await store.set('attomid:2 Main St:Denver, CO:google', '456', 3600);
+    await store.delete('attomid:2 Main St:Denver, CO:google');
+
+    const reloaded = new JsonLinesCacheStore(filePath);
+    expect(await reloaded.get('attomid:1 Main St:Denver, CO:google')).toBe('123');
+    expect(await reloaded.get('attomid:2 Main St:Denver, CO:google')).toBeUndefined();
+  });
+
+  it('evicts the oldest entries beyond its size cap', async () => {
+    const store = new JsonLinesCacheStore(filePath, 2);
+    await store.set('a', 1);
+    await store.set('b', 2);
+    await store.set('c', 3);
+
+    expect(await store.keys('')).toEqual(['b', 'c']);
+    expect(await new JsonLinesCacheStore(filePath, 2).keys('')).toEqual(['b', 'c']);
+  });
+
+  it('falls back to the default cap and TTL when the environment values are malformed', async () => {
+    process.env.PERSISTENT_CACHE_PATH = filePath;
+    process.env.PERSISTENT_CACHE_MAX_ENTRIES = 'lots';
+    process.env.PERSISTENT_CACHE_TTL_SECONDS = 'ninety days';
+    setPersistentStore(undefined);
+
+    await persistData('attomid:1 Main St:Denver, CO 80202:google', '123');
+
+    expect(getPersistentTTL()).toBe(7776000);
+    expect(await new JsonLinesCacheStore(filePath).get('attomid:1 Main St:Denver, CO 80202:google')).toBe('123');
+  });
+
+  it('purges all lookups for a single address', async () => {
+    setPersistentStore(new JsonLinesCacheStore(filePath));
+    await persistData('attomid:1 Main St:Denver, CO 80202:google', '123');
+    await persistData('geoIdV4Map:1 Main St:Denver, CO 80202', { N2: 'abc' });
+    await persistData('attomid:9 Elm St:Denver, CO 80202:google', '999');
+
+    const removed = await purgeCachedAddress('1 main st', 'Denver, CO 80202');
+
+    expect(removed).toBe(2);
+    expect(await getPersistedData('attomid:1 Main St:Denver, CO 80202:google')).toBeUndefined();
+    expect(await getPersistedData('attomid:9 Elm St:Denver, CO 80202:google')).toBe('999');
+  });
+
+  it('purges whole address segments from the shared and process-local stores', async () => {
+    setPersistentStore(null);
+    const permitsPath = endpoints.propertyBuildingPermits.path;
+    const permitsCache = endpoints.propertyBuildingPermits.cache;
+    endpoints.propertyBuildingPermits.cache = { ...permitsCache, useRedis: false };
+    try {
+      await cacheData('attomid:1 Main St:Denver, CO 80202:google', '123', 'fallback-helpers');
+      await cacheData('attomid:1 Main St:Denver, CO 80202-1234:google', '456', 'fallback-helpers');
+      await cacheData('geoIdV4Map:1 Main St:Denver, CO 80202', { N2: 'abc' }, permitsPath);
+
+      const removed = await purgeCachedAddress('1 main st', 'Denver, CO 80202');
+
+      expect(removed).toBe(2);
+      expect(await getCachedData('geoIdV4Map:1 Main St:Denver, CO 80202', permitsPath)).toBeUndefined();
+      expect(await getCachedData('attomid:1 Main St:Denver, CO 80202-1234:google')).toBe('456');
+    } finally {
+      endpoints.propertyBuildingPermits.cache = permitsCache;
+    }
+  });
+});
@@ -0,0 +1,194 @@
+// src/utils/persistentCache.ts
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { CacheStore } from './cacheStore.js';
+import { writeLog } from './logger.js';
+
+// Load environment variables
+dotenv.config();
+
+interface PersistedEntry {
+  value: any;
+  expiresAt?: number; // Epoch ms; undefined for entries without expiry
+}
+
+/**
+ * One line of the journal: a write (v/e) or a deletion (d)
+ */
+interface JournalRecord {
+  k: string;
+  v?: any;
+  e?: number;
+  d?: 1;
+}
+
+/**
+ * Durable CacheStore backed by an append-only JSON-lines journal.
+ * The journal is replayed into memory on start, every change is appended,
+ * and the file is compacted once it holds mostly superseded records.
+ * The oldest entries are evicted once maxEntries is reached.
+ */
+export class JsonLinesCacheStore implements CacheStore {
+  readonly name = 'jsonl';
+  private readonly entries = new Map<string, PersistedEntry>();
+  private journalLines = 0;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxEntries: number = 50000
+  ) {
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    const now = Date.now();
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      this.journalLines++;
+      try {
+        const record = JSON.parse(line) as JournalRecord;
+        this.entries.delete(record.k); // Re-insert so Map order reflects the latest write
+        if (!record.d && (record.e === undefined || record.e > now)) {
+          this.entries.set(record.k, { value: record.v, expiresAt: record.e });
+        }
+      } catch {
+        // A torn final line (e.g. crash mid-write) is skipped; the rest of the journal stays usable
+        writeLog(`[PersistentCache] Skipping unreadable journal line in ${this.filePath}`, 'warn');
+      }
+    }
+    writeLog(`[PersistentCache] Loaded ${this.entries.size} entries from ${this.filePath}`);
+    this.evictOverflow();
+  }
+
+  private append(record: JournalRecord): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+      this.journalLines++;
+    } catch (err) {
+      writeLog(`[PersistentCache] Failed to write ${this.filePath}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+    if (this.journalLines > Math.max(1000, this.entries.size * 2)) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the journal with only the live entries
+   */
+  compact(): void {
+    const now = Date.now();
+    const lines: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(key);
+        continue;
+      }
+      lines.push(JSON.stringify({ k: key, v: entry.value, e: entry.expiresAt }));
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, lines.length ? `${lines.join('\n')}\n` : '');
+      fs.renameSync(tmpPath, this.filePath); // Atomic replace so a crash never leaves a half-written journal
+      this.journalLines = lines.length;
+    } catch (err) {
+      writeLog(`[PersistentCache] Failed to compact ${this.filePath}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+    }
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.append({ k: oldestKey, d: 1 });
+    }
+  }
+
+  private live(key: string): PersistedEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    return this.live(key)?.value as T | undefined;
+  }
+
+  async set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+    const expiresAt = ttlSeconds === undefined ? undefined : Date.now() + ttlSeconds * 1000;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt });
+    this.append({ k: key, v: value, e: expiresAt });
+    this.evictOverflow();
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.entries.delete(key)) {
+      this.append({ k: key, d: 1 });
+    }
+  }
+
+  async ttl(key: string): Promise<number | undefined> {
+    const entry = this.live(key);
+    if (!entry) {
+      return undefined;
+    }
+    return entry.expiresAt === undefined ? -1 : Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return [...this.entries.keys()].filter(key => key.startsWith(prefix) && this.live(key));
+  }
+}
+
+let persistentStore: CacheStore | null | undefined;
+
+/**
+ * Read a positive count or TTL from the environment; a malformed cap would
+ * never evict and a malformed TTL would write entries that are dropped on reload
+ */
+function envPositiveInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * Get the durable store for ATTOM ID and GeoID lookups, or null when disabled
+ * via PERSISTENT_CACHE_DISABLED. The journal lives at PERSISTENT_CACHE_PATH.
+ */
+export function getPersistentStore(): CacheStore | null {
+  if (persistentStore === undefined) {
+    persistentStore = process.env.PERSISTENT_CACHE_DISABLED === 'true'
+      ? null
+      : new JsonLinesCacheStore(
+          path.resolve(process.env.PERSISTENT_CACHE_PATH ?? path.join(process.cwd(), '.cache', 'attom-ids.jsonl')),
+          envPositiveInt('PERSISTENT_CACHE_MAX_ENTRIES', 50000)
+        );
+  }
+  return persistentStore;
+}
+
+/**
+ * Replace the durable store (e.g. with a temporary one in tests); undefined
+ * creates it from the environment again on next use
+ */
+export function setPersistentStore(store: CacheStore | null | undefined): void {
+  persistentStore = store;
+}
+
+/**
+ * TTL for persisted lookups; ATTOM IDs and GeoIDs almost never change
+ * @returns TTL in seconds (PERSISTENT_CACHE_TTL_SECONDS, default 90 days)
+ */
+export function getPersistentTTL(): number {
+  return envPositiveInt('PERSISTENT_CACHE_TTL_SECONDS', 7776000);
+}
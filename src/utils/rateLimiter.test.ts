@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { acquireClientQuota, acquireRateLimit, getClientQuotaStatus, getRateLimitStatus, resetRateLimits } from './rateLimiter.js';
+import { AttomApiError } from './errors.js';
+
+const limit = { requestsPerMinute: 2, requestsPerDay: 3 };
+
+describe('Rate limiter', () => {
+  beforeEach(() => {
+    resetRateLimits();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.RATE_LIMIT_MODE;
+    delete process.env.RATE_LIMIT_MAX_WAIT_MS;
+  });
+
+  it('rejects calls over the per-minute limit with a 429 and retry hint', async () => {
+    process.env.RATE_LIMIT_MODE = 'reject';
+    await acquireRateLimit('avmSnapshot', limit, 'key-a');
+    await acquireRateLimit('avmSnapshot', limit, 'key-a');
+
+    const error = await acquireRateLimit('avmSnapshot', limit, 'key-a').catch(e => e);
+    expect(error).toBeInstanceOf(AttomApiError);
+    expect(error.status).toBe(429);
+    expect(error.details.retryAfterSeconds).toBe(60);
+  });
+
+  it('queues calls until the minute window frees up', async () => {
+    await acquireRateLimit('avmSnapshot', limit, 'key-a');
+    await acquireRateLimit('avmSnapshot', limit, 'key-a');
+
+    let resolved = false;
+    const pending = acquireRateLimit('avmSnapshot', limit, 'key-a').then(() => { resolved = true; });
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(resolved).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pending;
+    expect(resolved).toBe(true);
+  });
+
+  it('bounds queueing by the default wait when RATE_LIMIT_MAX_WAIT_MS is malformed', async () => {
+    process.env.RATE_LIMIT_MAX_WAIT_MS = 'one minute';
+    const perMinute = { requestsPerMinute: 1, requestsPerDay: 10 };
+    await acquireRateLimit('avmSnapshot', perMinute, 'key-a');
+
+    // Both wait for the first free slot; the loser would need a second minute
+    const first = acquireRateLimit('avmSnapshot', perMinute, 'key-a');
+    const second = acquireRateLimit('avmSnapshot', perMinute, 'key-a').catch(e => e);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await first;
+    expect(await second).toMatchObject({ status: 429 });
+  });
+
+  it('tracks quota separately per API key and reports what is left', async () => {
+    await acquireRateLimit('avmSnapshot', limit, 'key-a');
+    await acquireRateLimit('avmSnapshot', limit, 'key-b');
+    await acquireRateLimit('avmSnapshot', limit, 'key-b');
+
+    const status = getRateLimitStatus('avmSnapshot');
+    expect(status).toHaveLength(2);
+    expect(status.map(s => s.remainingToday).sort()).toEqual([1, 2]);
+    expect(JSON.stringify(status)).not.toContain('key-a');
+  });
+
+  it('always rejects once the daily quota is used up', async () => {
+    for (let i = 0; i < 3; i++) {
+      await acquireRateLimit('avmSnapshot', limit, 'key-a');
+      await vi.advanceTimersByTimeAsync(60_000);
+    }
+    await expect(acquireRateLimit('avmSnapshot', limit, 'key-a')).rejects.toMatchObject({ status: 429 });
+  });
+
+  it('counts all of a client\'s calls against its own quota', async () => {
+    process.env.RATE_LIMIT_MODE = 'reject';
+    const quota = { requestsPerMinute: 2, requestsPerDay: 10 };
+    await acquireClientQuota('acme', quota);
+    await acquireClientQuota('acme', quota);
+
+    await expect(acquireClientQuota('acme', quota)).rejects.toMatchObject({ status: 429 });
+    expect(getClientQuotaStatus('acme')).toEqual([expect.objectContaining({ clientId: 'acme', remainingThisMinute: 0, remainingToday: 8 })]);
+  });
+});
@@ -0,0 +1,249 @@
+// src/utils/rateLimiter.ts
+import { createHash } from 'node:crypto';
+import dotenv from 'dotenv';
+import { RateLimitConfig } from '../config/endpointConfig.js';
+import { QuotaExceededError } from './errors.js';
+import { writeLog } from './logger.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * How calls over the per-minute limit are handled:
+ * - 'queue'  waits until a slot frees up (bounded by RATE_LIMIT_MAX_WAIT_MS)
+ * - 'reject' fails immediately with a 429 QuotaExceededError
+ * Daily quota exhaustion is always rejected.
+ */
+export type RateLimitMode = 'queue' | 'reject';
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Snapshot of the remaining quota for one endpoint / API key pair
+ */
+export interface RateLimitStatus {
+  endpointKey: string;
+  apiKeyId: string;
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  remainingThisMinute: number;
+  remainingToday: number;
+  resetsInSeconds: number;
+}
+
+/**
+ * Snapshot of the remaining quota of one MCP client across all endpoints
+ */
+export interface ClientQuotaStatus extends Omit<RateLimitStatus, 'endpointKey' | 'apiKeyId'> {
+  clientId: string;
+}
+
+interface RateLimitBucket {
+  config: RateLimitConfig;
+  minuteWindow: number[]; // Timestamps (ms) of calls made in the last minute
+  day: string;            // UTC date (YYYY-MM-DD) the daily counter belongs to
+  dayCount: number;
+}
+
+const buckets = new Map<string, RateLimitBucket>();
+const clientBuckets = new Map<string, RateLimitBucket>();
+
+function getMode(): RateLimitMode {
+  return process.env.RATE_LIMIT_MODE === 'reject' ? 'reject' : 'queue';
+}
+
+// A malformed RATE_LIMIT_MAX_WAIT_MS must not leave queued calls waiting without bound
+function getMaxWaitMs(): number {
+  const maxWaitMs = parseInt(process.env.RATE_LIMIT_MAX_WAIT_MS ?? '60000');
+  return Number.isFinite(maxWaitMs) ? maxWaitMs : 60000;
+}
+
+function isDisabled(): boolean {
+  return process.env.RATE_LIMIT_DISABLED === 'true';
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(now: number): number {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((next.getTime() - now) / 1000);
+}
+
+/**
+ * Derive a stable, non-reversible identifier for an API key so raw keys never
+ * end up in bucket names, logs or quota reports.
+ */
+export function getApiKeyId(apiKey: string | undefined): string {
+  if (!apiKey) {
+    return 'anonymous';
+  }
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 12);
+}
+
+function getBucket(
+  store: Map<string, RateLimitBucket>,
+  bucketKey: string,
+  config: RateLimitConfig,
+  now: number
+): RateLimitBucket {
+  let bucket = store.get(bucketKey);
+  if (!bucket) {
+    bucket = { config, minuteWindow: [], day: utcDay(now), dayCount: 0 };
+    store.set(bucketKey, bucket);
+  }
+
+  // Keep the bucket in sync with the latest config and roll the windows forward
+  bucket.config = config;
+  bucket.minuteWindow = bucket.minuteWindow.filter(ts => now - ts < MINUTE_MS);
+  const today = utcDay(now);
+  if (bucket.day !== today) {
+    bucket.day = today;
+    bucket.dayCount = 0;
+  }
+  return bucket;
+}
+
+function toCounters(bucket: RateLimitBucket, now: number): Omit<RateLimitStatus, 'endpointKey' | 'apiKeyId'> {
+  const { requestsPerMinute, requestsPerDay } = bucket.config;
+  const oldest = bucket.minuteWindow[0];
+  return {
+    requestsPerMinute,
+    requestsPerDay,
+    remainingThisMinute: Math.max(0, requestsPerMinute - bucket.minuteWindow.length),
+    remainingToday: Math.max(0, requestsPerDay - bucket.dayCount),
+    resetsInSeconds: oldest === undefined ? 0 : Math.ceil((oldest + MINUTE_MS - now) / 1000),
+  };
+}
+
+/**
+ * Count one call in a bucket, waiting for or rejecting calls over its limits
+ * @param subject Who the bucket limits, for errors and logs (e.g. "endpoint avmSnapshot")
+ * @param bucketAt Returns the bucket, rolled forward to the given time
+ * @param status Builds the quota status reported back and in 429 details
+ */
+async function reserve<S>(
+  subject: string,
+  bucketAt: (now: number) => RateLimitBucket,
+  status: (bucket: RateLimitBucket, now: number) => S
+): Promise<S> {
+  const startedAt = Date.now();
+
+  for (;;) {
+    const now = Date.now();
+    const bucket = bucketAt(now);
+    const { config } = bucket;
+
+    if (isDisabled()) {
+      return status(bucket, now);
+    }
+
+    if (bucket.dayCount >= config.requestsPerDay) {
+      const retryAfterSeconds = secondsUntilNextUtcDay(now);
+      writeLog(`[RateLimiter] Daily quota exhausted for ${subject}.`, 'warn');
+      throw new QuotaExceededError(
+        `Daily quota of ${config.requestsPerDay} requests exhausted for ${subject}. Retry after ${retryAfterSeconds}s.`,
+        { retryAfterSeconds, quota: status(bucket, now) }
+      );
+    }
+
+    if (bucket.minuteWindow.length < config.requestsPerMinute) {
+      bucket.minuteWindow.push(now);
+      bucket.dayCount++;
+      return status(bucket, now);
+    }
+
+    const waitMs = bucket.minuteWindow[0] + MINUTE_MS - now;
+    const waitedMs = now - startedAt;
+    if (getMode() === 'reject' || waitedMs + waitMs > getMaxWaitMs()) {
+      const retryAfterSeconds = Math.ceil(waitMs / 1000);
+      writeLog(`[RateLimiter] Per-minute limit reached for ${subject}; rejecting call.`, 'warn');
+      throw new QuotaExceededError(
+        `Rate limit of ${config.requestsPerMinute} requests/minute exceeded for ${subject}. Retry after ${retryAfterSeconds}s.`,
+        { retryAfterSeconds, quota: status(bucket, now) }
+      );
+    }
+
+    writeLog(`[RateLimiter] Per-minute limit reached for ${subject}; queueing for ${waitMs}ms.`);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+}
+
+/**
+ * Reserve one call against the rate limit of an endpoint for the given API key.
+ * Resolves once the call may proceed; waits in 'queue' mode and throws a 429
+ * QuotaExceededError (with a retryAfterSeconds hint in `details`) otherwise.
+ * @param endpointKey Endpoint key (or path for unconfigured endpoints)
+ * @param config Rate limit configuration for the endpoint
+ * @param apiKey Upstream ATTOM API key the call will be made with
+ * @returns Quota status after the call has been counted
+ */
+export async function acquireRateLimit(
+  endpointKey: string,
+  config: RateLimitConfig,
+  apiKey?: string
+): Promise<RateLimitStatus> {
+  const apiKeyId = getApiKeyId(apiKey);
+  return reserve(
+    `endpoint ${endpointKey} (key ${apiKeyId})`,
+    now => getBucket(buckets, `${apiKeyId}:${endpointKey}`, config, now),
+    (bucket, now) => ({ endpointKey, apiKeyId, ...toCounters(bucket, now) })
+  );
+}
+
+/**
+ * Reserve one call against an MCP client's own quota, which covers its calls
+ * to every endpoint. Waits or rejects like acquireRateLimit.
+ * @param clientId Client ID from the client registry
+ * @param quota The client's quota
+ * @returns Quota status after the call has been counted
+ */
+export async function acquireClientQuota(clientId: string, quota: RateLimitConfig): Promise<ClientQuotaStatus> {
+  return reserve(
+    `client ${clientId}`,
+    now => getBucket(clientBuckets, clientId, quota, now),
+    (bucket, now) => ({ clientId, ...toCounters(bucket, now) })
+  );
+}
+
+/**
+ * Report the remaining quota for every endpoint that has been called so far.
+ * @param endpointKey Optional endpoint key to restrict the report to
+ * @returns Quota status entries
+ */
+export function getRateLimitStatus(endpointKey?: string): RateLimitStatus[] {
+  const now = Date.now();
+  const result: RateLimitStatus[] = [];
+  for (const [bucketKey, bucket] of buckets) {
+    const separator = bucketKey.indexOf(':');
+    const apiKeyId = bucketKey.slice(0, separator);
+    const key = bucketKey.slice(separator + 1);
+    if (endpointKey && key !== endpointKey) {
+      continue;
+    }
+    result.push({ endpointKey: key, apiKeyId, ...toCounters(getBucket(buckets, bucketKey, bucket.config, now), now) });
+  }
+  return result;
+}
+
+/**
+ * Report the remaining quota of every MCP client that has made calls so far.
+ * @param clientId Optional client ID to restrict the report to
+ * @returns Quota status entries
+ */
+export function getClientQuotaStatus(clientId?: string): ClientQuotaStatus[] {
+  const now = Date.now();
+  return [...clientBuckets]
+    .filter(([id]) => !clientId || id === clientId)
+    .map(([id, bucket]) => ({ clientId: id, ...toCounters(getBucket(clientBuckets, id, bucket.config, now), now) }));
+}
+
+/**
+ * Clear all rate limit state (mainly for tests)
+ */
+export function resetRateLimits(): void {
+  buckets.clear();
+  clientBuckets.clear();
+}
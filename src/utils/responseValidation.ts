@@ -0,0 +1,76 @@
+// src/utils/responseValidation.ts
+import { z } from 'zod';
+import dotenv from 'dotenv';
+import { UpstreamError } from './errors.js';
+import { writeLog } from './logger.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * How responses that do not match their endpoint's responseSchema are handled:
+ * - 'strict'  rejects the response with a 502 UpstreamError
+ * - 'lenient' logs a warning and returns the response with a validationIssues field
+ * - 'off'     skips validation
+ */
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+/**
+ * One mismatch between a response and its schema
+ */
+export interface ValidationIssue {
+  path: string;    // Dotted path into the response, e.g. 'property.0.avm.amount.value'
+  message: string;
+  code: string;    // Zod issue code, e.g. 'invalid_type'
+}
+
+/**
+ * A response as returned by executeAttomQuery: lenient validation may attach the issues it found
+ */
+export type ValidatedResponse<T> = T & { validationIssues?: ValidationIssue[] };
+
+const VALIDATION_MODES: ValidationMode[] = ['strict', 'lenient', 'off'];
+
+export function getValidationMode(): ValidationMode {
+  const mode = process.env.RESPONSE_VALIDATION_MODE as ValidationMode | undefined;
+  return mode && VALIDATION_MODES.includes(mode) ? mode : 'lenient';
+}
+
+/**
+ * Check a response against its endpoint's schema
+ * @param endpointKey Endpoint key (for messages)
+ * @param schema Endpoint's responseSchema; responses of endpoints without one pass unchanged
+ * @param data Response to check (not modified)
+ * @param mode Validation mode (defaults to RESPONSE_VALIDATION_MODE)
+ * @returns The response, with validationIssues attached if lenient validation found any
+ */
+export function validateResponse<T extends Record<string, any>>(
+  endpointKey: string,
+  schema: z.ZodType<any> | undefined,
+  data: T,
+  mode: ValidationMode = getValidationMode()
+): ValidatedResponse<T> {
+  if (!schema || mode === 'off') {
+    return data as ValidatedResponse<T>;
+  }
+
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return data as ValidatedResponse<T>;
+  }
+
+  const validationIssues: ValidationIssue[] = result.error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code,
+  }));
+  const summary = validationIssues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+
+  if (mode === 'strict') {
+    writeLog(`[ResponseValidation] Rejecting ${endpointKey} response: ${summary}`, 'error');
+    throw new UpstreamError(`Response from ${endpointKey} does not match its schema`, 502, { validationIssues });
+  }
+
+  writeLog(`[ResponseValidation] ${endpointKey} response has ${validationIssues.length} schema issue(s): ${summary}`, 'warn');
+  return { ...data, validationIssues };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('undici', () => ({
+  fetch: vi.fn(),
+}));
+
+import { fetch } from 'undici';
+import { fetchAttom } from './fetcher.js';
+import { runAsClient } from './clientContext.js';
+import { getCurrentTenant, getTenantUsage, resetTenantUsage, runAsTenant, setTenants } from './tenants.js';
+import { acquireRateLimit, resetRateLimits } from './rateLimiter.js';
+import { AttomService } from '../services/attomService.js';
+
+const fetchMock = vi.mocked(fetch);
+
+setTenants([
+  { id: 'commercial', apiKey: 'commercial-key', baseUrl: 'https://commercial.example.com' },
+  { id: 'residential', apiKey: 'residential-key' },
+]);
+
+describe('tenants', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    resetTenantUsage();
+  });
+
+  it('uses ATTOM_API_KEY unless a tenant is selected', () => {
+    expect(getCurrentTenant()).toMatchObject({ id: 'default', apiKey: process.env.ATTOM_API_KEY });
+    expect(runAsTenant('residential', () => getCurrentTenant())).toMatchObject({ id: 'residential', apiKey: 'residential-key' });
+  });
+
+  it('bills calls to the client\'s default tenant and only lets it select its own tenants', () => {
+    const client = { id: 'acme', tenant: 'commercial', tenants: ['residential'] };
+
+    expect(runAsClient(client, () => getCurrentTenant().id)).toBe('commercial');
+    expect(runAsClient(client, () => runAsTenant('residential', () => getCurrentTenant().id))).toBe('residential');
+    expect(() => runAsClient(client, () => runAsTenant('default', () => undefined))).toThrow('may not use tenant default');
+    expect(() => runAsTenant('nope', () => undefined)).toThrow('Unknown tenant: nope');
+  });
+
+  it('sends the tenant\'s key to its base URL and counts the call', async () => {
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({ status: { code: 0 } }) } as any);
+
+    await runAsTenant('commercial', () => fetchAttom('/propertyapi/v1.0.0/avm/snapshot', { attomid: '1' }));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toMatch(/^https:\/\/commercial\.example\.com\/propertyapi\/v1\.0\.0\/avm\/snapshot\?/);
+    expect((init as any).headers.apikey).toBe('commercial-key');
+    expect(getTenantUsage(['commercial'])).toEqual([
+      expect.objectContaining({ tenantId: 'commercial', endpointKey: 'avmSnapshot', calls: 1, failures: 0 }),
+    ]);
+  });
+
+  it('shows a client the quota of its own tenants and endpoints only', async () => {
+    resetRateLimits();
+    const limit = { requestsPerMinute: 10, requestsPerDay: 100 };
+    await acquireRateLimit('avmSnapshot', limit, 'commercial-key');
+    await acquireRateLimit('saleDetail', limit, 'commercial-key');
+    await acquireRateLimit('avmSnapshot', limit, 'residential-key');
+    const client = { id: 'acme', tenant: 'commercial', allowedEndpoints: ['avmSnapshot'] };
+
+    const status = runAsClient(client, () => new AttomService().getQuotaStatus());
+
+    expect(status).toHaveLength(1);
+    expect(status[0]).toMatchObject({ endpointKey: 'avmSnapshot', remainingToday: 99 });
+    expect(new AttomService().getQuotaStatus()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,214 @@
+// src/utils/tenants.ts
+import fs from 'node:fs';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { AuthError, InvalidParamsError } from './errors.js';
+import { getCurrentClient } from './clientContext.js';
+import { registerLogSecret, writeLog } from './logger.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Tenant used when no other is selected: ATTOM_API_KEY against ATTOM_API_BASE_URL
+ */
+export const DEFAULT_TENANT_ID = 'default';
+
+const DEFAULT_BASE_URL = 'https://api.gateway.attomdata.com';
+
+/**
+ * Upstream ATTOM contract a call is made under
+ */
+export interface TenantConfig {
+  id: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+/**
+ * Upstream calls made under one tenant for one endpoint
+ */
+export interface TenantUsage {
+  tenantId: string;
+  endpointKey: string;
+  calls: number;
+  failures: number;
+  lastCallAt: string; // ISO timestamp
+}
+
+const tenantSchema = z.object({
+  id: z.string().min(1).refine(id => id !== DEFAULT_TENANT_ID, `'${DEFAULT_TENANT_ID}' is reserved for ATTOM_API_KEY`),
+  apiKey: z.string().min(1).optional().describe('ATTOM API key of the tenant'),
+  apiKeyEnv: z.string().min(1).optional().describe('Name of the environment variable holding the API key'),
+  baseUrl: z.string().url().optional().describe('ATTOM gateway base URL; ATTOM_API_BASE_URL when omitted'),
+}).refine(tenant => !!tenant.apiKey !== !!tenant.apiKeyEnv, 'Set exactly one of apiKey and apiKeyEnv');
+
+const tenantsFileSchema = z.object({
+  tenants: z.array(tenantSchema),
+});
+
+/**
+ * Tenant entry of the tenants file
+ */
+export type TenantDefinition = z.infer<typeof tenantSchema>;
+
+let configuredTenants: Map<string, TenantConfig> | undefined;
+const usage = new Map<string, TenantUsage>();
+const storage = new AsyncLocalStorage<string>();
+
+function getDefaultTenant(): TenantConfig {
+  return {
+    id: DEFAULT_TENANT_ID,
+    apiKey: process.env.ATTOM_API_KEY ?? '',
+    baseUrl: process.env.ATTOM_API_BASE_URL ?? DEFAULT_BASE_URL,
+  };
+}
+
+/**
+ * Replace the configured tenants (the tenants file is read on first use otherwise)
+ * @param tenants Tenant definitions; the default tenant is always available
+ * @throws Error on duplicate IDs or an apiKeyEnv naming an unset variable
+ */
+export function setTenants(tenants: TenantDefinition[]): void {
+  const byId = new Map<string, TenantConfig>();
+  for (const { id, apiKey, apiKeyEnv, baseUrl } of tenants) {
+    if (byId.has(id)) {
+      throw new Error(`Duplicate tenant ID: ${id}`);
+    }
+    const key = apiKey ?? process.env[apiKeyEnv!];
+    if (!key) {
+      throw new Error(`Tenant ${id}: environment variable ${apiKeyEnv} is not set`);
+    }
+    registerLogSecret(key);
+    byId.set(id, { id, apiKey: key, baseUrl: baseUrl ?? process.env.ATTOM_API_BASE_URL ?? DEFAULT_BASE_URL });
+  }
+  configuredTenants = byId;
+}
+
+function getConfiguredTenants(): Map<string, TenantConfig> {
+  if (!configuredTenants) {
+    const filePath = process.env.ATTOM_TENANTS_FILE;
+    if (!filePath) {
+      setTenants([]);
+    } else {
+      const parsed = tenantsFileSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new Error(`Invalid tenants file ${filePath}: ${issues}`);
+      }
+      setTenants(parsed.data.tenants);
+      writeLog(`[Tenants] Loaded ${parsed.data.tenants.length} tenants from ${filePath}`);
+    }
+  }
+  return configuredTenants!;
+}
+
+/**
+ * IDs of the tenants from the tenants file (without the default tenant)
+ */
+export function listTenantIds(): string[] {
+  return [...getConfiguredTenants().keys()];
+}
+
+/**
+ * Tenants the current client may bill calls to: its default tenant and its
+ * extra tenants; every tenant for unauthenticated (stdio / open HTTP) callers
+ */
+export function getAllowedTenantIds(): string[] {
+  const client = getCurrentClient();
+  if (!client) {
+    return [DEFAULT_TENANT_ID, ...listTenantIds()];
+  }
+  return [...new Set([client.tenant ?? DEFAULT_TENANT_ID, ...(client.tenants ?? [])])];
+}
+
+/**
+ * Throw unless the tenant exists and the current client may use it
+ * @param tenantId Tenant ID
+ */
+export function assertTenantAllowed(tenantId: string): void {
+  if (tenantId !== DEFAULT_TENANT_ID && !getConfiguredTenants().has(tenantId)) {
+    throw new InvalidParamsError(`Unknown tenant: ${tenantId}`, { tenantId });
+  }
+  if (!getAllowedTenantIds().includes(tenantId)) {
+    const client = getCurrentClient();
+    throw new AuthError(`Client ${client?.id} may not use tenant ${tenantId}`, 403, { clientId: client?.id, tenantId });
+  }
+}
+
+/**
+ * Run a function with upstream calls billed to a tenant
+ * @param tenantId Tenant ID; undefined keeps the current selection
+ * @throws InvalidParamsError if the tenant is unknown, AuthError if the client may not use it
+ */
+export function runAsTenant<T>(tenantId: string | undefined, fn: () => T): T {
+  if (tenantId === undefined) {
+    return fn();
+  }
+  assertTenantAllowed(tenantId);
+  return storage.run(tenantId, fn);
+}
+
+/**
+ * Get the ID of the tenant upstream calls are billed to: the one selected with
+ * runAsTenant, else the client's default tenant, else the default tenant
+ */
+export function getCurrentTenantId(): string {
+  return storage.getStore() ?? getCurrentClient()?.tenant ?? DEFAULT_TENANT_ID;
+}
+
+/**
+ * Get the credentials and base URL of the current tenant
+ */
+export function getCurrentTenant(): TenantConfig {
+  return getTenant(getCurrentTenantId());
+}
+
+/**
+ * Get the credentials and base URL of a tenant
+ * @param tenantId Tenant ID
+ * @throws InvalidParamsError if the tenant is unknown
+ */
+export function getTenant(tenantId: string): TenantConfig {
+  if (tenantId === DEFAULT_TENANT_ID) {
+    return getDefaultTenant();
+  }
+  const tenant = getConfiguredTenants().get(tenantId);
+  if (!tenant) {
+    throw new InvalidParamsError(`Unknown tenant: ${tenantId}`, { tenantId });
+  }
+  return tenant;
+}
+
+/**
+ * Count one upstream call for a tenant
+ * @param tenantId Tenant the call was billed to
+ * @param endpointKey Endpoint key (or path for unconfigured endpoints)
+ * @param failed Whether the call failed
+ */
+export function recordTenantUsage(tenantId: string, endpointKey: string, failed: boolean): void {
+  const usageKey = `${tenantId}:${endpointKey}`;
+  const entry = usage.get(usageKey) ?? { tenantId, endpointKey, calls: 0, failures: 0, lastCallAt: '' };
+  entry.calls++;
+  if (failed) {
+    entry.failures++;
+  }
+  entry.lastCallAt = new Date().toISOString();
+  usage.set(usageKey, entry);
+}
+
+/**
+ * Report upstream calls per tenant and endpoint since startup
+ * @param tenantIds Optional tenant IDs to restrict the report to
+ */
+export function getTenantUsage(tenantIds?: string[]): TenantUsage[] {
+  return [...usage.values()].filter(entry => !tenantIds || tenantIds.includes(entry.tenantId));
+}
+
+/**
+ * Clear the usage counters (mainly for tests)
+ */
+export function resetTenantUsage(): void {
+  usage.clear();
+}
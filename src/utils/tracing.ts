@@ -0,0 +1,149 @@
+// src/utils/tracing.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * One step of a traced tool call: an address normalization, a fallback
+ * lookup, a cache read or an upstream HTTP call
+ */
+export interface TraceSpan {
+  id: number;
+  parentId?: number;           // Span this one ran inside of
+  name: string;                // e.g. "fetchAttom" or "googlePlaces.autocomplete"
+  startMs: number;             // Offset from the start of the trace
+  durationMs: number;
+  status: 'ok' | 'error';
+  cache?: 'hit' | 'miss';      // Whether the step was served from a cache
+  error?: string;
+  attributes?: Record<string, unknown>;
+}
+
+/**
+ * Everything one tool call did, in the order the steps started
+ */
+export interface ExecutionTrace {
+  traceId: string;
+  durationMs: number;
+  spans: TraceSpan[];
+}
+
+/**
+ * Span handle passed to the function being traced, so it can annotate the span
+ */
+export interface ActiveSpan {
+  setCache(cache: 'hit' | 'miss'): void;
+  setAttribute(key: string, value: unknown): void;
+}
+
+interface TraceState {
+  traceId: string;
+  startedAt: number;
+  spans: TraceSpan[];
+  nextSpanId: number;
+}
+
+interface TraceContext {
+  state: TraceState;
+  spanId?: number;
+  span?: ActiveSpan;
+}
+
+const NO_SPAN: ActiveSpan = { setCache: () => {}, setAttribute: () => {} };
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+/**
+ * Run a function as a new trace. Everything it awaits (normalization,
+ * fallbacks, fetches, log lines) is tied to the trace's correlation ID.
+ * @param fn Function to trace
+ * @param traceId Correlation ID; a random UUID by default
+ * @returns The function's result and the recorded trace
+ */
+export async function runWithTrace<T>(
+  fn: () => Promise<T>,
+  traceId: string = randomUUID()
+): Promise<{ result: T; trace: ExecutionTrace }> {
+  const state: TraceState = { traceId, startedAt: performance.now(), spans: [], nextSpanId: 1 };
+  const result = await storage.run({ state }, fn);
+  return { result, trace: snapshotTrace(state) };
+}
+
+/**
+ * Get the correlation ID of the trace the current code runs in, if any
+ */
+export function getCurrentTraceId(): string | undefined {
+  return storage.getStore()?.state.traceId;
+}
+
+/**
+ * Get the span the current code runs in, to mark it as served from cache or
+ * add details; a no-op handle outside a span
+ */
+export function currentSpan(): ActiveSpan {
+  return storage.getStore()?.span ?? NO_SPAN;
+}
+
+/**
+ * Get the spans recorded so far in the current trace, if any
+ */
+export function getCurrentTrace(): ExecutionTrace | undefined {
+  const context = storage.getStore();
+  return context ? snapshotTrace(context.state) : undefined;
+}
+
+function snapshotTrace(state: TraceState): ExecutionTrace {
+  return {
+    traceId: state.traceId,
+    durationMs: round(performance.now() - state.startedAt),
+    spans: [...state.spans].sort((a, b) => a.id - b.id),
+  };
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
+
+/**
+ * Record a step of the current trace with its timing. Outside a trace the
+ * function simply runs.
+ * @param name Step name
+ * @param attributes Details shown with the span (endpoint key, strategy, ...)
+ * @param fn The step; it may mark the span as served from cache
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Record<string, unknown> | undefined,
+  fn: (span: ActiveSpan) => Promise<T>
+): Promise<T> {
+  const context = storage.getStore();
+  if (!context) {
+    return fn(NO_SPAN);
+  }
+
+  const { state } = context;
+  const startedAt = performance.now();
+  const span: TraceSpan = {
+    id: state.nextSpanId++,
+    ...(context.spanId !== undefined ? { parentId: context.spanId } : {}),
+    name,
+    startMs: round(startedAt - state.startedAt),
+    durationMs: 0,
+    status: 'ok',
+    ...(attributes ? { attributes: { ...attributes } } : {}),
+  };
+  const handle: ActiveSpan = {
+    setCache: cache => { span.cache = cache; },
+    setAttribute: (key, value) => { span.attributes = { ...span.attributes, [key]: value }; },
+  };
+
+  try {
+    return await storage.run({ state, spanId: span.id, span: handle }, () => fn(handle));
+  } catch (err) {
+    span.status = 'error';
+    span.error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    span.durationMs = round(performance.now() - startedAt);
+    state.spans.push(span);
+  }
+}
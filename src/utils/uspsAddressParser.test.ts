@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { addressSimilarity, getSecondaryUnit, normalizeAddressLocally, parseUsAddress, removeSecondaryUnit } from './uspsAddressParser.js';
+
+describe('USPS address parser', () => {
+  it('abbreviates directionals, suffixes, unit designators and state names', () => {
+    expect(parseUsAddress('123 North Main Street Apartment 4B, Denver, Colorado 80202-1234')).toEqual({
+      primaryNumber: '123',
+      preDirectional: 'N',
+      streetName: 'MAIN',
+      suffix: 'ST',
+      unitDesignator: 'APT',
+      unitNumber: '4B',
+      city: 'DENVER',
+      state: 'CO',
+      zip: '80202',
+      zip4: '1234',
+    });
+    expect(normalizeAddressLocally('123 North Main Street Apartment 4B, Denver, Colorado 80202-1234')).toEqual({
+      address1: '123 N MAIN ST APT 4B',
+      address2: 'DENVER, CO 80202',
+      formattedAddress: '123 N MAIN ST APT 4B, DENVER, CO 80202-1234',
+      provider: 'local',
+      confidence: 0.8,
+    });
+  });
+
+  it('splits street and city without commas', () => {
+    expect(normalizeAddressLocally('4529 Winona Court Denver CO 80212')).toMatchObject({
+      address1: '4529 WINONA CT',
+      address2: 'DENVER, CO 80212',
+    });
+    expect(normalizeAddressLocally('100 Main St. NW #12 Washington District of Columbia')).toMatchObject({
+      address1: '100 MAIN ST NW # 12',
+      address2: 'WASHINGTON, DC',
+    });
+  });
+
+  it('handles PO boxes, street names that look like directionals and suffixes that look like states', () => {
+    expect(normalizeAddressLocally('P.O. Box 456, Austin, TX 78701')).toMatchObject({
+      address1: 'PO BOX 456',
+      address2: 'AUSTIN, TX 78701',
+    });
+    expect(normalizeAddressLocally('12 North Street, Hartford, CT')).toMatchObject({
+      address1: '12 NORTH ST',
+      address2: 'HARTFORD, CT',
+    });
+    expect(parseUsAddress('77 Oak Ct')).toMatchObject({ streetName: 'OAK', suffix: 'CT' });
+  });
+
+  it('rejects addresses ATTOM cannot locate', () => {
+    expect(normalizeAddressLocally('1600 Pennsylvania Ave, Washington')).toBeNull();
+    expect(normalizeAddressLocally('')).toBeNull();
+  });
+
+  it('scores similarity on standardized tokens', () => {
+    expect(addressSimilarity('4529 Winona Court, Denver, Colorado 80212', '4529 Winona Ct, Denver, CO 80212-1234, USA')).toBe(1);
+    expect(addressSimilarity('100 Main St', '100 Main Street, Springfield, IL, USA')).toBe(0.75);
+    expect(addressSimilarity('100 Main St', '')).toBe(0);
+  });
+
+  it('extracts and strips secondary units', () => {
+    expect(getSecondaryUnit('12 Elm St #4B, Austin, TX 78701')).toBe('# 4B');
+    expect(getSecondaryUnit('12 Elm Street, Suite 200, Austin, TX 78701')).toBe('STE 200');
+    expect(getSecondaryUnit('12 Elm St, Austin, TX 78701')).toBeUndefined();
+    expect(removeSecondaryUnit('12 Elm St Apt. 4B')).toBe('12 Elm St');
+    expect(removeSecondaryUnit('12 Elm St #4B')).toBe('12 Elm St');
+    expect(removeSecondaryUnit('1 Sea Pier Rd')).toBeNull();
+  });
+
+  it('leaves designators that are part of the street name', () => {
+    expect(removeSecondaryUnit('100 Old Key West Rd')).toBeNull();
+    expect(removeSecondaryUnit('8 Lot Creek Dr')).toBeNull();
+    expect(removeSecondaryUnit('3 Pier Point Ave')).toBeNull();
+    expect(removeSecondaryUnit('40 Open Space Way')).toBeNull();
+    expect(removeSecondaryUnit('100 Old Key West Rd Apt 2')).toBe('100 Old Key West Rd');
+    expect(removeSecondaryUnit('100 Main St NW Lot 7')).toBe('100 Main St NW');
+    expect(removeSecondaryUnit('55 Harbor Blvd Rear')).toBe('55 Harbor Blvd');
+  });
+
+  it('keeps # as the designator of a unit', () => {
+    const normalized = normalizeAddressLocally('12 Elm St #4B, Austin, TX 78701');
+
+    expect(getSecondaryUnit('12 Elm St Apt. 4B, Austin, TX 78701')).toBe('APT 4B');
+    expect(normalized?.address1).toBe('12 ELM ST # 4B');
+    expect(removeSecondaryUnit(normalized!.address1)).toBe('12 ELM ST');
+  });
+});
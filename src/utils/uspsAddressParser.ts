@@ -0,0 +1,523 @@
+// src/utils/uspsAddressParser.ts
+import type { AddressNormalizer, NormalizedAddress } from './addressNormalizer.js';
+
+/**
+ * Components of a US address in USPS Publication 28 standard form
+ */
+export interface ParsedUsAddress {
+  primaryNumber?: string;    // e.g. "123" or "123 1/2"
+  preDirectional?: string;   // e.g. "N"
+  streetName?: string;       // e.g. "MAIN"
+  suffix?: string;           // e.g. "ST"
+  postDirectional?: string;  // e.g. "NW"
+  unitDesignator?: string;   // e.g. "APT", "STE" or "#"
+  unitNumber?: string;       // e.g. "4B"
+  poBox?: string;            // Box number of a PO box address
+  city?: string;
+  state?: string;            // Two-letter code
+  zip?: string;              // Five-digit ZIP code
+  zip4?: string;             // ZIP+4 add-on
+}
+
+// Street suffixes (Publication 28, appendix C1): common spellings -> standard abbreviation
+const SUFFIXES: Record<string, string[]> = {
+  ALY: ['ALLEY', 'ALLEE', 'ALLY'],
+  AVE: ['AVENUE', 'AV', 'AVEN', 'AVENU', 'AVN', 'AVNUE'],
+  BND: ['BEND'],
+  BLF: ['BLUFF', 'BLUF'],
+  BLVD: ['BOULEVARD', 'BOUL', 'BOULV'],
+  BR: ['BRANCH', 'BRNCH'],
+  BRG: ['BRIDGE', 'BRDGE'],
+  BRK: ['BROOK'],
+  BYP: ['BYPASS', 'BYPA', 'BYPAS', 'BYPS'],
+  CSWY: ['CAUSEWAY', 'CAUSWA'],
+  CTR: ['CENTER', 'CEN', 'CENT', 'CENTR', 'CENTRE', 'CNTER', 'CNTR'],
+  CIR: ['CIRCLE', 'CIRC', 'CIRCL', 'CRCL', 'CRCLE'],
+  CLF: ['CLIFF'],
+  CLB: ['CLUB'],
+  CMN: ['COMMON'],
+  COR: ['CORNER'],
+  CT: ['COURT'],
+  CV: ['COVE'],
+  CRK: ['CREEK'],
+  CRES: ['CRESCENT', 'CRSENT', 'CRSNT'],
+  CRST: ['CREST'],
+  XING: ['CROSSING', 'CRSSNG'],
+  CURV: ['CURVE'],
+  CYN: ['CANYON', 'CANYN', 'CNYN'],
+  DL: ['DALE'],
+  DM: ['DAM'],
+  DR: ['DRIVE', 'DRIV', 'DRV'],
+  EST: ['ESTATE'],
+  ESTS: ['ESTATES'],
+  EXPY: ['EXPRESSWAY', 'EXP', 'EXPR', 'EXPRESS', 'EXPW'],
+  EXT: ['EXTENSION', 'EXTN', 'EXTNSN'],
+  FLS: ['FALLS'],
+  FRY: ['FERRY', 'FRRY'],
+  FLD: ['FIELD'],
+  FLDS: ['FIELDS'],
+  FLT: ['FLAT'],
+  FRD: ['FORD'],
+  FRST: ['FOREST', 'FORESTS'],
+  FRK: ['FORK'],
+  FT: ['FORT', 'FRT'],
+  FWY: ['FREEWAY', 'FREEWY', 'FRWAY', 'FRWY'],
+  GDNS: ['GARDENS', 'GARDN', 'GRDEN', 'GRDN'],
+  GTWY: ['GATEWAY', 'GATEWY', 'GATWAY', 'GTWAY'],
+  GLN: ['GLEN'],
+  GRN: ['GREEN'],
+  GRV: ['GROVE', 'GROV'],
+  HBR: ['HARBOR', 'HARB', 'HARBR', 'HRBOR'],
+  HVN: ['HAVEN'],
+  HTS: ['HEIGHTS', 'HT'],
+  HWY: ['HIGHWAY', 'HIGHWY', 'HIWAY', 'HIWY', 'HWAY'],
+  HL: ['HILL'],
+  HLS: ['HILLS'],
+  HOLW: ['HOLLOW', 'HLLW', 'HOLLOWS', 'HOLWS'],
+  INLT: ['INLET'],
+  IS: ['ISLAND', 'ISLND'],
+  JCT: ['JUNCTION', 'JCTION', 'JCTN', 'JUNCTN', 'JUNCTON'],
+  KY: ['KEY'],
+  KNL: ['KNOLL', 'KNOL'],
+  LK: ['LAKE'],
+  LKS: ['LAKES'],
+  LNDG: ['LANDING', 'LNDNG'],
+  LN: ['LANE'],
+  LGT: ['LIGHT'],
+  LCK: ['LOCK'],
+  LDG: ['LODGE', 'LDGE', 'LODG'],
+  LOOP: ['LOOPS'],
+  MALL: [],
+  MNR: ['MANOR'],
+  MDW: ['MEADOW'],
+  MDWS: ['MEADOWS', 'MEDOWS'],
+  ML: ['MILL'],
+  MSN: ['MISSION', 'MISSN', 'MSSN'],
+  MTWY: ['MOTORWAY'],
+  MT: ['MOUNT', 'MNT'],
+  MTN: ['MOUNTAIN', 'MNTAIN', 'MNTN', 'MOUNTIN', 'MTIN'],
+  NCK: ['NECK'],
+  ORCH: ['ORCHARD', 'ORCHRD'],
+  OVAL: ['OVL'],
+  PARK: ['PRK'],
+  PKWY: ['PARKWAY', 'PARKWY', 'PKWAY', 'PKY'],
+  PASS: [],
+  PSGE: ['PASSAGE'],
+  PATH: ['PATHS'],
+  PIKE: ['PIKES'],
+  PNE: ['PINE'],
+  PNES: ['PINES'],
+  PL: ['PLACE'],
+  PLN: ['PLAIN'],
+  PLNS: ['PLAINS'],
+  PLZ: ['PLAZA', 'PLZA'],
+  PT: ['POINT'],
+  PRT: ['PORT'],
+  PR: ['PRAIRIE', 'PRR'],
+  RADL: ['RADIAL', 'RAD', 'RADIEL'],
+  RNCH: ['RANCH', 'RANCHES', 'RNCHS'],
+  RPDS: ['RAPIDS'],
+  RST: ['REST'],
+  RDG: ['RIDGE', 'RDGE'],
+  RIV: ['RIVER', 'RVR', 'RIVR'],
+  RD: ['ROAD'],
+  RDS: ['ROADS'],
+  RTE: ['ROUTE'],
+  ROW: [],
+  RUN: [],
+  SHR: ['SHORE', 'SHOAR'],
+  SHRS: ['SHORES', 'SHOARS'],
+  SKWY: ['SKYWAY'],
+  SPG: ['SPRING', 'SPNG', 'SPRNG'],
+  SPGS: ['SPRINGS', 'SPNGS', 'SPRNGS'],
+  SPUR: ['SPURS'],
+  SQ: ['SQUARE', 'SQR', 'SQRE', 'SQU'],
+  STA: ['STATION', 'STATN', 'STN'],
+  STRM: ['STREAM', 'STREME'],
+  ST: ['STREET', 'STRT', 'STR'],
+  SMT: ['SUMMIT', 'SUMIT', 'SUMITT'],
+  TER: ['TERRACE', 'TERR'],
+  TRWY: ['THROUGHWAY'],
+  TRCE: ['TRACE', 'TRACES'],
+  TRFY: ['TRAFFICWAY'],
+  TRL: ['TRAIL', 'TRAILS', 'TRLS'],
+  TUNL: ['TUNNEL', 'TUNEL', 'TUNLS', 'TUNNELS', 'TUNNL'],
+  TPKE: ['TURNPIKE', 'TRNPK', 'TURNPK'],
+  UPAS: ['UNDERPASS'],
+  UN: ['UNION'],
+  VLY: ['VALLEY', 'VALLY', 'VLLY'],
+  VIA: ['VIADUCT', 'VDCT', 'VIADCT'],
+  VW: ['VIEW'],
+  VLG: ['VILLAGE', 'VILL', 'VILLAG', 'VILLG', 'VILLIAGE'],
+  VL: ['VILLE'],
+  VIS: ['VISTA', 'VIST', 'VST', 'VSTA'],
+  WALK: ['WALKS'],
+  WAY: ['WY'],
+  WL: ['WELL'],
+  WLS: ['WELLS'],
+};
+
+const DIRECTIONALS: Record<string, string[]> = {
+  N: ['NORTH'],
+  S: ['SOUTH'],
+  E: ['EAST'],
+  W: ['WEST'],
+  NE: ['NORTHEAST', 'NORTH-EAST'],
+  NW: ['NORTHWEST', 'NORTH-WEST'],
+  SE: ['SOUTHEAST', 'SOUTH-EAST'],
+  SW: ['SOUTHWEST', 'SOUTH-WEST'],
+};
+
+// Secondary unit designators (Publication 28, appendix C2)
+const UNIT_DESIGNATORS: Record<string, string[]> = {
+  APT: ['APARTMENT'],
+  BLDG: ['BUILDING'],
+  DEPT: ['DEPARTMENT'],
+  FL: ['FLOOR'],
+  HNGR: ['HANGAR'],
+  KEY: [],
+  LOT: [],
+  PIER: [],
+  RM: ['ROOM'],
+  SLIP: [],
+  SPC: ['SPACE'],
+  STOP: [],
+  STE: ['SUITE'],
+  TRLR: ['TRAILER'],
+  UNIT: [],
+  // Designators that take no number
+  BSMT: ['BASEMENT'],
+  FRNT: ['FRONT'],
+  LBBY: ['LOBBY'],
+  LOWR: ['LOWER'],
+  OFC: ['OFFICE'],
+  PH: ['PENTHOUSE'],
+  REAR: [],
+  SIDE: [],
+  UPPR: ['UPPER'],
+};
+const UNNUMBERED_DESIGNATORS = new Set(['BSMT', 'FRNT', 'LBBY', 'LOWR', 'OFC', 'PH', 'REAR', 'SIDE', 'UPPR']);
+
+const STATES: Record<string, string> = {
+  ALABAMA: 'AL', ALASKA: 'AK', ARIZONA: 'AZ', ARKANSAS: 'AR', CALIFORNIA: 'CA', COLORADO: 'CO',
+  CONNECTICUT: 'CT', DELAWARE: 'DE', 'DISTRICT OF COLUMBIA': 'DC', FLORIDA: 'FL', GEORGIA: 'GA',
+  HAWAII: 'HI', IDAHO: 'ID', ILLINOIS: 'IL', INDIANA: 'IN', IOWA: 'IA', KANSAS: 'KS', KENTUCKY: 'KY',
+  LOUISIANA: 'LA', MAINE: 'ME', MARYLAND: 'MD', MASSACHUSETTS: 'MA', MICHIGAN: 'MI', MINNESOTA: 'MN',
+  MISSISSIPPI: 'MS', MISSOURI: 'MO', MONTANA: 'MT', NEBRASKA: 'NE', NEVADA: 'NV', 'NEW HAMPSHIRE': 'NH',
+  'NEW JERSEY': 'NJ', 'NEW MEXICO': 'NM', 'NEW YORK': 'NY', 'NORTH CAROLINA': 'NC', 'NORTH DAKOTA': 'ND',
+  OHIO: 'OH', OKLAHOMA: 'OK', OREGON: 'OR', PENNSYLVANIA: 'PA', 'RHODE ISLAND': 'RI',
+  'SOUTH CAROLINA': 'SC', 'SOUTH DAKOTA': 'SD', TENNESSEE: 'TN', TEXAS: 'TX', UTAH: 'UT', VERMONT: 'VT',
+  VIRGINIA: 'VA', WASHINGTON: 'WA', 'WEST VIRGINIA': 'WV', WISCONSIN: 'WI', WYOMING: 'WY',
+  'AMERICAN SAMOA': 'AS', GUAM: 'GU', 'NORTHERN MARIANA ISLANDS': 'MP', 'PUERTO RICO': 'PR',
+  'VIRGIN ISLANDS': 'VI', 'US VIRGIN ISLANDS': 'VI',
+};
+
+// Spelling -> abbreviation, including the abbreviation itself
+function lookupTable(table: Record<string, string[]>): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const [abbreviation, spellings] of Object.entries(table)) {
+    lookup.set(abbreviation, abbreviation);
+    for (const spelling of spellings) {
+      lookup.set(spelling, abbreviation);
+    }
+  }
+  return lookup;
+}
+
+const SUFFIX_LOOKUP = lookupTable(SUFFIXES);
+const DIRECTIONAL_LOOKUP = lookupTable(DIRECTIONALS);
+const UNIT_LOOKUP = lookupTable(UNIT_DESIGNATORS);
+const STATE_CODES = new Set(Object.values(STATES));
+
+// Full names first (longest first, so "WEST VIRGINIA" wins over "VIRGINIA"), then codes
+const STATE_PATTERN = new RegExp(
+  `(?:^|[\\s,])(${[...Object.keys(STATES).sort((a, b) => b.length - a.length), ...STATE_CODES].join('|')})$`
+);
+const ZIP_PATTERN = /(?:^|[\s,])(\d{5})(?:[-\s]?(\d{4}))?$/;
+const COUNTRY_PATTERN = /[\s,]+(?:USA|US|UNITED STATES(?: OF AMERICA)?)$/;
+const STATE_NAME_PATTERN = new RegExp(`\\b(${Object.keys(STATES).sort((a, b) => b.length - a.length).join('|')})\\b`, 'g');
+const PO_BOX_PATTERN = /^(?:P\s?O|POST OFFICE)\s*BOX\s+(\S+)$/;
+const PRIMARY_NUMBER_PATTERN = /^\d[\dA-Z-]*$/;
+const FRACTION_PATTERN = /^\d\/\d$/;
+
+function cleanInput(input: string): string {
+  return input
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/#\s*/g, '# ')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether tokens[index] starts the secondary unit: "#", a designator followed by
+ * its number ("APT 4" but not "PIER RD") or an unnumbered designator ending the line
+ */
+function isUnitStart(tokens: string[], index: number): boolean {
+  const designator = UNIT_LOOKUP.get(tokens[index]);
+  if (tokens[index] === '#') {
+    return true;
+  }
+  if (!designator) {
+    return false;
+  }
+  const next = tokens[index + 1];
+  return UNNUMBERED_DESIGNATORS.has(designator)
+    ? next === undefined
+    : next !== undefined && (next === '#' || !SUFFIX_LOOKUP.has(next));
+}
+
+/**
+ * Find where the street ends in a line without commas ("123 MAIN ST APT 4 DENVER"):
+ * after the first suffix that follows the street name, plus any post-directional and unit
+ * @returns Index of the first city token, or undefined if no suffix marks the boundary
+ */
+function findCityStart(tokens: string[]): number | undefined {
+  const nameStart = PRIMARY_NUMBER_PATTERN.test(tokens[0] ?? '') ? 1 : 0;
+  for (let index = nameStart + 1; index < tokens.length - 1; index++) {
+    if (!SUFFIX_LOOKUP.has(tokens[index])) {
+      continue;
+    }
+    let next = index + 1;
+    if (DIRECTIONAL_LOOKUP.has(tokens[next])) {
+      next++;
+    }
+    if (next < tokens.length - 1 && (tokens[next] === '#' || UNIT_LOOKUP.has(tokens[next]))) {
+      const designator = UNIT_LOOKUP.get(tokens[next]);
+      next += designator && UNNUMBERED_DESIGNATORS.has(designator) ? 1 : 2;
+      if (tokens[next - 1] === '#' && next < tokens.length - 1) {
+        next++;
+      }
+    }
+    return next < tokens.length ? next : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Split a street line into number, directionals, name, suffix and unit
+ */
+function parseStreetLine(line: string): ParsedUsAddress | null {
+  const poBox = PO_BOX_PATTERN.exec(line);
+  if (poBox) {
+    return { poBox: poBox[1] };
+  }
+
+  const tokens = line.replace(/,/g, ' ').split(' ').filter(Boolean);
+  const parsed: ParsedUsAddress = {};
+  let start = 0;
+  if (PRIMARY_NUMBER_PATTERN.test(tokens[0] ?? '')) {
+    parsed.primaryNumber = tokens[0];
+    start = 1;
+    if (FRACTION_PATTERN.test(tokens[1] ?? '')) {
+      parsed.primaryNumber += ` ${tokens[1]}`;
+      start = 2;
+    }
+  }
+
+  // The unit starts at the first designator after the street name
+  let end = tokens.length;
+  for (let index = start + 1; index < tokens.length; index++) {
+    if (isUnitStart(tokens, index)) {
+      end = index;
+      break;
+    }
+  }
+  if (end < tokens.length) {
+    parsed.unitDesignator = UNIT_LOOKUP.get(tokens[end]) ?? '#';
+    const unitNumber = tokens.slice(end + 1).filter(token => token !== '#').join(' ');
+    if (unitNumber) {
+      parsed.unitNumber = unitNumber;
+    }
+  }
+
+  const street = tokens.slice(start, end);
+  // "N MAIN" has a pre-directional, "NORTH ST" is a street named North
+  if (street.length >= 2 && DIRECTIONAL_LOOKUP.has(street[0]) && !(street.length === 2 && SUFFIX_LOOKUP.has(street[1]))) {
+    parsed.preDirectional = DIRECTIONAL_LOOKUP.get(street.shift()!);
+  }
+  if (street.length >= 2 && DIRECTIONAL_LOOKUP.has(street[street.length - 1])) {
+    parsed.postDirectional = DIRECTIONAL_LOOKUP.get(street.pop()!);
+  }
+  if (street.length >= 2 && SUFFIX_LOOKUP.has(street[street.length - 1])) {
+    parsed.suffix = SUFFIX_LOOKUP.get(street.pop()!);
+  }
+  if (street.length === 0) {
+    return null;
+  }
+  parsed.streetName = street.join(' ');
+  return parsed;
+}
+
+/**
+ * Parse a one-line US address into USPS Publication 28 components, without
+ * any network access. Suffixes, directionals, unit designators and state
+ * names are abbreviated; everything is upper case.
+ * @param input Address such as "123 North Main Street Apt 4, Denver, Colorado 80202-1234"
+ * @returns The components, or null if no street line or PO box was found
+ */
+export function parseUsAddress(input: string): ParsedUsAddress | null {
+  let rest = cleanInput(input).replace(COUNTRY_PATTERN, '');
+  const result: ParsedUsAddress = {};
+
+  // "PO BOX 12345" ends in a box number, not a ZIP code
+  const zip = ZIP_PATTERN.exec(rest);
+  if (zip && !/BOX$/.test(rest.slice(0, zip.index))) {
+    result.zip = zip[1];
+    if (zip[2]) {
+      result.zip4 = zip[2];
+    }
+    rest = rest.slice(0, zip.index).replace(/[\s,]+$/, '');
+  }
+
+  // A trailing "CT" or "MT" is a state only if a comma or ZIP sets it apart from the street
+  const state = STATE_PATTERN.exec(rest);
+  if (state && (result.zip || rest.includes(',') || !SUFFIX_LOOKUP.has(state[1]))) {
+    result.state = STATES[state[1]] ?? state[1];
+    rest = rest.slice(0, state.index).replace(/[\s,]+$/, '');
+  }
+
+  const segments = rest.split(',').map(segment => segment.trim()).filter(Boolean);
+  let streetLine: string;
+  if (segments.length >= 2) {
+    result.city = segments[segments.length - 1];
+    streetLine = segments.slice(0, -1).join(' ');
+  } else {
+    const tokens = (segments[0] ?? '').split(' ').filter(Boolean);
+    const cityStart = result.state || result.zip ? findCityStart(tokens) : undefined;
+    if (cityStart !== undefined) {
+      result.city = tokens.slice(cityStart).join(' ');
+    }
+    streetLine = tokens.slice(0, cityStart).join(' ');
+  }
+
+  const street = parseStreetLine(streetLine);
+  return street ? { ...street, ...result } : null;
+}
+
+/**
+ * Format parsed components as ATTOM's address1 ("123 N MAIN ST APT 4") and
+ * address2 ("DENVER, CO 80202")
+ * @returns The address, or null without a city and state or a ZIP code
+ */
+export function formatAddressForAttom(parsed: ParsedUsAddress): NormalizedAddress | null {
+  const address1 = parsed.poBox !== undefined
+    ? `PO BOX ${parsed.poBox}`
+    : [
+      parsed.primaryNumber, parsed.preDirectional, parsed.streetName, parsed.suffix,
+      parsed.postDirectional, parsed.unitDesignator, parsed.unitNumber,
+    ].filter(Boolean).join(' ');
+  if (!address1 || !((parsed.city && parsed.state) || parsed.zip)) {
+    return null;
+  }
+
+  const cityState = [parsed.city, parsed.state].filter(Boolean).join(', ');
+  const address2 = [cityState, parsed.zip].filter(Boolean).join(' ');
+  const zipPlus4 = parsed.zip && parsed.zip4 ? `${parsed.zip}-${parsed.zip4}` : parsed.zip;
+  // A complete address is likely right as typed; without a ZIP or city ATTOM has to guess
+  const complete = !!(parsed.city && parsed.state && parsed.zip);
+  return {
+    address1,
+    address2,
+    formattedAddress: `${address1}, ${[cityState, zipPlus4].filter(Boolean).join(' ')}`,
+    provider: uspsParserNormalizer.name,
+    confidence: complete ? 0.8 : 0.6,
+  };
+}
+
+/**
+ * Normalize a one-line US address for ATTOM with the offline parser
+ * @param address Full address string
+ * @returns Normalized address for ATTOM API, or null if it cannot be parsed
+ */
+export function normalizeAddressLocally(address: string): NormalizedAddress | null {
+  const parsed = parseUsAddress(address);
+  return parsed ? formatAddressForAttom(parsed) : null;
+}
+
+/**
+ * Get the secondary unit (apartment, suite, ...) of an address in ATTOM's
+ * "<designator> <number>" form, e.g. "APT 4B" for "12 Elm St Apt. 4B, Austin, TX".
+ * A "#" stays the designator, as Publication 28 allows: "#4B" gives "# 4B"
+ * @returns The unit, or undefined if the address has none or cannot be parsed
+ */
+export function getSecondaryUnit(address: string): string | undefined {
+  const parsed = parseUsAddress(address);
+  return parsed?.unitDesignator
+    ? [parsed.unitDesignator, parsed.unitNumber].filter(Boolean).join(' ')
+    : undefined;
+}
+
+/**
+ * Strip the secondary unit from a street line, keeping the rest as written:
+ * "123 Main St Apt 4" -> "123 Main St". Only a unit ending the line right after
+ * the street suffix (and post-directional) counts, since designators such as
+ * KEY, LOT or PIER are street words too: "100 Old Key West Rd" has no unit
+ * @returns The building's street line, or null if the line has no unit
+ */
+export function removeSecondaryUnit(address1: string): string | null {
+  const tokens = address1.replace(/#\s*/g, '# ').replace(/,/g, ' ').split(/\s+/).filter(Boolean);
+  const standardized = tokens.map(token => token.toUpperCase().replace(/\./g, ''));
+  // "<designator> <number>" or an unnumbered designator as the last token
+  for (const index of [tokens.length - 2, tokens.length - 1]) {
+    if (index < 2 || !isUnitStart(standardized, index)) {
+      continue;
+    }
+    const streetEnd = DIRECTIONAL_LOOKUP.has(standardized[index - 1]) ? index - 2 : index - 1;
+    if (standardized[index] === '#' || SUFFIX_LOOKUP.has(standardized[streetEnd])) {
+      return tokens.slice(0, index).join(' ');
+    }
+  }
+  return null;
+}
+
+/**
+ * Split free text into standardized address tokens for comparison: upper case,
+ * abbreviated suffixes, directionals, unit designators and state names, ZIP+4
+ * cut to the ZIP code and the country dropped
+ */
+export function standardizeAddressTokens(text: string): string[] {
+  return cleanInput(text)
+    .replace(STATE_NAME_PATTERN, name => STATES[name])
+    .replace(/\b(?:UNITED STATES(?: OF AMERICA)?|USA)\b/g, '')
+    .replace(/\b(\d{5})-\d{4}\b/g, '$1')
+    .split(/[\s,]+/)
+    .filter(token => token && token !== '#')
+    .map(token => SUFFIX_LOOKUP.get(token) ?? DIRECTIONAL_LOOKUP.get(token) ?? UNIT_LOOKUP.get(token) ?? token);
+}
+
+/**
+ * Similarity of two addresses from 0 to 1: the share of standardized tokens
+ * they have in common (Dice coefficient). "100 Main St" scores 0.75 against
+ * "100 Main St, Springfield, IL", a full match 1.
+ */
+export function addressSimilarity(a: string, b: string): number {
+  const left = standardizeAddressTokens(a);
+  const right = standardizeAddressTokens(b);
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+  const unmatched = [...right];
+  let shared = 0;
+  for (const token of left) {
+    const index = unmatched.indexOf(token);
+    if (index >= 0) {
+      unmatched.splice(index, 1);
+      shared++;
+    }
+  }
+  return Math.round((2 * shared / (left.length + right.length)) * 100) / 100;
+}
+
+/**
+ * Address normalizer backed by the offline parser; always available
+ */
+export const uspsParserNormalizer: AddressNormalizer = {
+  name: 'local',
+  isAvailable: () => true,
+  async normalize(address) {
+    const normalized = normalizeAddressLocally(address);
+    return normalized ? [normalized] : [];
+  },
+};